@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "PurchaseIntentStatus" AS ENUM ('pending', 'success', 'failed', 'refunded');
+
+-- CreateTable
+CREATE TABLE "purchase_intents" (
+    "id" BIGSERIAL NOT NULL,
+    "user_id" BIGINT NOT NULL,
+    "plan_id" INTEGER NOT NULL,
+    "reference" TEXT NOT NULL,
+    "client_secret" TEXT NOT NULL,
+    "intention_id" TEXT,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "status" "PurchaseIntentStatus" NOT NULL DEFAULT 'pending',
+    "transaction_id" BIGINT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "purchase_intents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_transactions" (
+    "id" BIGSERIAL NOT NULL,
+    "transaction_id" BIGINT NOT NULL,
+    "purchase_intent_id" BIGINT NOT NULL,
+    "status" "PurchaseIntentStatus" NOT NULL,
+    "amount_cents" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "payment_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_intents_reference_key" ON "purchase_intents"("reference");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_intents_client_secret_key" ON "purchase_intents"("client_secret");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_intents_intention_id_key" ON "purchase_intents"("intention_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_transactions_transaction_id_key" ON "payment_transactions"("transaction_id");
+
+-- AddForeignKey
+ALTER TABLE "purchase_intents" ADD CONSTRAINT "purchase_intents_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "purchase_intents" ADD CONSTRAINT "purchase_intents_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "plans"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_transactions" ADD CONSTRAINT "payment_transactions_purchase_intent_id_fkey" FOREIGN KEY ("purchase_intent_id") REFERENCES "purchase_intents"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+/*
+  Warnings:
+
+  - The unique constraint covering the columns `[user_id,plan_id]` on the table `user_plans` will be dropped. Every subscription period is now its own row.
+
+*/
+-- DropIndex
+DROP INDEX "user_plans_user_id_plan_id_key";
+
+-- AlterTable
+ALTER TABLE "plans" ADD COLUMN     "billing_period_days" INTEGER NOT NULL DEFAULT 30;
+
+-- CreateIndex
+CREATE INDEX "user_plans_user_id_is_active_idx" ON "user_plans"("user_id", "is_active");
+
+-- Keep only the most recent active plan per user
+UPDATE "user_plans" up
+SET "is_active" = false, "end_date" = COALESCE(up."end_date", CURRENT_TIMESTAMP)
+WHERE up."is_active" = true
+  AND EXISTS (
+    SELECT 1 FROM "user_plans" newer
+    WHERE newer."user_id" = up."user_id"
+      AND newer."is_active" = true
+      AND (newer."start_date" > up."start_date" OR (newer."start_date" = up."start_date" AND newer."id" > up."id"))
+  );
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "plans" ADD COLUMN     "rate_limit_block_duration" INTEGER NOT NULL DEFAULT 3600,
+ADD COLUMN     "rate_limit_duration" INTEGER NOT NULL DEFAULT 3600,
+ADD COLUMN     "rate_limit_points" INTEGER NOT NULL DEFAULT 50;
+
+-- Carry over the tiers that were hard-coded in the rate limiter
+UPDATE "plans" SET "rate_limit_points" = 200, "rate_limit_block_duration" = 1800 WHERE "name" = 'pro';
+UPDATE "plans" SET "rate_limit_points" = 1000, "rate_limit_block_duration" = 900 WHERE "name" = 'business';
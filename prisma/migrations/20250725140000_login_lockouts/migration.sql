@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "login_lockouts" (
+    "id" BIGSERIAL NOT NULL,
+    "email" TEXT NOT NULL,
+    "user_id" BIGINT,
+    "ip_address" TEXT,
+    "failed_attempts" INTEGER NOT NULL,
+    "locked_until" TIMESTAMPTZ(6) NOT NULL,
+    "unlocked_at" TIMESTAMPTZ(6),
+    "unlocked_by" BIGINT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "login_lockouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "login_lockouts_email_idx" ON "login_lockouts"("email");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "deactivated_at" TIMESTAMPTZ(6),
+ADD COLUMN     "is_active" BOOLEAN NOT NULL DEFAULT true;
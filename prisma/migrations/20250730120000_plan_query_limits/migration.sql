@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "plans" ADD COLUMN     "query_row_limit" INTEGER NOT NULL DEFAULT 1000,
+ADD COLUMN     "query_timeout_ms" INTEGER NOT NULL DEFAULT 30000;
+
+-- Paid tiers get longer statements and larger result sets
+UPDATE "plans" SET "query_timeout_ms" = 60000, "query_row_limit" = 5000 WHERE "name" = 'pro';
+UPDATE "plans" SET "query_timeout_ms" = 120000, "query_row_limit" = 20000 WHERE "name" = 'business';
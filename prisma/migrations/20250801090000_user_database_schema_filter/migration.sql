@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "user_databases" ADD COLUMN     "excluded_schemas" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "included_schemas" TEXT[] DEFAULT ARRAY[]::TEXT[];
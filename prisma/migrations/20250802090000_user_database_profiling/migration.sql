@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "user_databases" ADD COLUMN     "profiling_enabled" BOOLEAN NOT NULL DEFAULT false;
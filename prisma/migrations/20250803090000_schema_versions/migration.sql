@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "user_databases" ADD COLUMN     "schema_version" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "schema_versions" (
+    "id" BIGSERIAL NOT NULL,
+    "user_database_id" BIGINT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "schema" JSONB NOT NULL,
+    "changes" JSONB NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "schema_versions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "schema_versions_user_database_id_version_key" ON "schema_versions"("user_database_id", "version");
+
+-- AddForeignKey
+ALTER TABLE "schema_versions" ADD CONSTRAINT "schema_versions_user_database_id_fkey" FOREIGN KEY ("user_database_id") REFERENCES "user_databases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "user_databases" ADD COLUMN     "excluded_tables" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "included_tables" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "masked_columns" TEXT[] DEFAULT ARRAY[]::TEXT[];
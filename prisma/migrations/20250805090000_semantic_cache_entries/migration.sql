@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "semantic_cache_entries" (
+    "id" BIGSERIAL NOT NULL,
+    "user_id" BIGINT NOT NULL,
+    "user_database_id" BIGINT NOT NULL,
+    "schema_version" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "response" JSONB NOT NULL,
+    "hit_count" INTEGER NOT NULL DEFAULT 0,
+    "last_used_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMPTZ(6) NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "semantic_cache_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "semantic_cache_entries_user_database_id_schema_version_idx" ON "semantic_cache_entries"("user_database_id", "schema_version");
+
+-- CreateIndex
+CREATE INDEX "semantic_cache_entries_expires_at_idx" ON "semantic_cache_entries"("expires_at");
+
+-- AddForeignKey
+ALTER TABLE "semantic_cache_entries" ADD CONSTRAINT "semantic_cache_entries_user_database_id_fkey" FOREIGN KEY ("user_database_id") REFERENCES "user_databases"("id") ON DELETE CASCADE ON UPDATE CASCADE;
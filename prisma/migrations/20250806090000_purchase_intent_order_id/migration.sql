@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "purchase_intents" ADD COLUMN     "paymob_order_id" BIGINT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "purchase_intents_paymob_order_id_key" ON "purchase_intents"("paymob_order_id");
@@ -1,5 +1,6 @@
 import axios from 'axios';
 import { OpenAIEmbeddings } from '@langchain/openai';
+import { TokenUsageService } from '../utils/tokenUsage';
 // Remove import { HuggingFaceInferenceEmbeddings } from '@langchain/community/embeddings/hf';
 // Remove import { PromptTemplate } from 'langchain/dist/prompts/prompt';
 // Remove import { BaseLLM } from 'langchain/llms/base';
@@ -39,6 +40,7 @@ User Question: {question}
 
 Requirements:
 - Use only the tables and columns provided in the schema
+- Join tables on the columns listed under "Foreign keys"; do not guess join columns
 - Return a valid SQL query that answers the question
 - If the question is about analysis, include aggregations and grouping
 - For business insights, focus on sales, products, customers, and reviews
@@ -46,7 +48,7 @@ Requirements:
 - Return ONLY the SQL query, no explanations
 - Use appropriate SQL syntax for {databaseType}
 - ONLY generate SELECT queries for data retrieval, NEVER INSERT, UPDATE, or DELETE operations
-- IMPORTANT: For MySQL with ONLY_FULL_GROUP_BY mode, ALL non-aggregated columns in SELECT must be included in GROUP BY clause
+- IMPORTANT: ALL non-aggregated columns in SELECT must be included in the GROUP BY clause
 - When using GROUP BY, only include columns that are functionally dependent on the GROUP BY columns or use aggregate functions (SUM, COUNT, AVG, etc.)
 
 SQL Query:`;
@@ -479,7 +481,11 @@ export const PROMPT_TEMPLATES = {
 };
 
 // OpenAI LLM call helper
-async function callOpenAI(model: string, prompt: string): Promise<string> {
+// When a userId is given the call is checked against and charged to the user's plan token limit
+async function callOpenAI(model: string, prompt: string, userId?: string): Promise<string> {
+  if (userId) {
+    await TokenUsageService.assertWithinQuota(userId);
+  }
   try {
     const response = await axios.post(
       OPENAI_API_URL,
@@ -496,6 +502,14 @@ async function callOpenAI(model: string, prompt: string): Promise<string> {
         }
       }
     );
+    const usage = response.data.usage;
+    if (userId && usage) {
+      await TokenUsageService.recordUsage(userId, {
+        promptTokens: usage.prompt_tokens || 0,
+        completionTokens: usage.completion_tokens || 0,
+        totalTokens: usage.total_tokens || 0
+      });
+    }
     return response.data.choices[0].message.content;
   } catch (error: any) {
     if (error.response && error.response.data && error.response.data.error) {
@@ -520,8 +534,8 @@ export const getEmbeddings = async (texts: string[]): Promise<number[][]> => {
 
 // Define the minimal interface expected by LLMChain
 interface MinimalLLM {
-  call(inputs: { prompt: string }): Promise<{ text: string }>;
-  predict?(prompt: string): Promise<string>;
+  call(inputs: { prompt: string; userId?: string }): Promise<{ text: string }>;
+  predict?(prompt: string, userId?: string): Promise<string>;
   predictMessages?(messages: any[]): Promise<any>;
 }
 
@@ -531,12 +545,12 @@ export class OpenAILLM implements MinimalLLM {
   constructor(model: string) {
     this.model = model;
   }
-  async call(inputs: { prompt: string }): Promise<{ text: string }> {
-    const text = await callOpenAI(this.model, inputs.prompt);
+  async call(inputs: { prompt: string; userId?: string }): Promise<{ text: string }> {
+    const text = await callOpenAI(this.model, inputs.prompt, inputs.userId);
     return { text };
   }
-  async predict(prompt: string): Promise<string> {
-    return (await this.call({ prompt })).text;
+  async predict(prompt: string, userId?: string): Promise<string> {
+    return (await this.call({ prompt, userId })).text;
   }
   async predictMessages(messages: any[]): Promise<any> {
     // Not implemented for non-chat models
@@ -548,32 +562,32 @@ export const openAIQueryLLM = new OpenAILLM(OPENAI_QUERY_MODEL);
 export const openAIAnalysisLLM = new OpenAILLM(OPENAI_ANALYSIS_MODEL);
 
 // Exported LLM/embedding functions
-export const executeSQLGeneration = async (params: { schema: string; question: string; databaseType: string; chatHistory?: string }) => {
+export const executeSQLGeneration = async (params: { schema: string; question: string; databaseType: string; chatHistory?: string }, userId?: string) => {
   const prompt = formatSQLPrompt(params);
-  return await callOpenAI(OPENAI_QUERY_MODEL, prompt);
+  return await callOpenAI(OPENAI_QUERY_MODEL, prompt, userId);
 };
 
-export const executeBusinessAnalysis = async (params: { question: string; data: string; context: string; chatHistory?: string }) => {
+export const executeBusinessAnalysis = async (params: { question: string; data: string; context: string; chatHistory?: string }, userId?: string) => {
   const prompt = formatBusinessAnalysisPrompt(params);
-  return await callOpenAI(OPENAI_ANALYSIS_MODEL, prompt);
+  return await callOpenAI(OPENAI_ANALYSIS_MODEL, prompt, userId);
 };
 
-export const executeDashboardAnalysis = async (params: { data: string; context: string; chatHistory?: string }) => {
+export const executeDashboardAnalysis = async (params: { data: string; context: string; chatHistory?: string }, userId?: string) => {
   const prompt = formatDashboardAnalysisPrompt(params);
-  return await callOpenAI(OPENAI_ANALYSIS_MODEL, prompt);
+  return await callOpenAI(OPENAI_ANALYSIS_MODEL, prompt, userId);
 };
 
-export const executeSchemaAnalysis = async (params: { schema: string }) => {
+export const executeSchemaAnalysis = async (params: { schema: string }, userId?: string) => {
   const prompt = formatSchemaAnalysisPrompt(params);
-  return await callOpenAI(OPENAI_ANALYSIS_MODEL, prompt);
+  return await callOpenAI(OPENAI_ANALYSIS_MODEL, prompt, userId);
 };
 
-export const executeQuestionClassification = async (params: { question: string; chatHistory?: string }) => {
+export const executeQuestionClassification = async (params: { question: string; chatHistory?: string }, userId?: string) => {
   const prompt = formatQuestionClassificationPrompt(params);
-  return await callOpenAI(OPENAI_ANALYSIS_MODEL, prompt);
+  return await callOpenAI(OPENAI_ANALYSIS_MODEL, prompt, userId);
 };
 
-export const executeGeneralKnowledge = async (params: { question: string; chatHistory?: string }) => {
+export const executeGeneralKnowledge = async (params: { question: string; chatHistory?: string }, userId?: string) => {
   const prompt = formatGeneralKnowledgePrompt(params);
-  return await callOpenAI(OPENAI_ANALYSIS_MODEL, prompt);
+  return await callOpenAI(OPENAI_ANALYSIS_MODEL, prompt, userId);
 };
@@ -0,0 +1,99 @@
+import { Request, Response } from 'express';
+import { RAGController } from '../rag.controller';
+import { VectorStoreService } from '../../utils/vectorStore';
+import { CacheStoreProvider } from '../../utils/cacheStore';
+
+const mockUserDatabase = {
+  id: BigInt(42),
+  user_id: BigInt(7),
+  is_active: true,
+  included_tables: [] as string[],
+  excluded_tables: [] as string[],
+  masked_columns: [] as string[]
+};
+
+jest.mock('../../index', () => ({
+  prisma: {
+    user_databases: {
+      findFirst: jest.fn(async () => mockUserDatabase),
+      update: jest.fn(async ({ data }: any) => ({ ...mockUserDatabase, ...data }))
+    }
+  }
+}));
+
+// Word-count embeddings, so similarity search works without the OpenAI API
+jest.mock('../../configs/langchain', () => {
+  const vocabulary = ['employee', 'employees', 'salary', 'salaries', 'name', 'ada', 'list', 'total', 'records'];
+  const embed = (text: string) => {
+    const words = text.toLowerCase().split(/[^a-z]+/);
+    return vocabulary.map(term => words.filter(word => word === term).length + 0.01);
+  };
+  return { getEmbeddings: async (texts: string[]) => texts.map(embed) };
+});
+
+// Modules the controller imports that reach databases or the model
+jest.mock('../../utils/ragService', () => ({}));
+jest.mock('../../utils/databaseConnection', () => ({}));
+jest.mock('../../utils/connectors', () => ({}));
+jest.mock('../../utils/schemaDriftService', () => ({}));
+jest.mock('../../utils/queryEngine', () => ({}));
+jest.mock('../../utils/semanticCache', () => ({
+  SemanticCacheService: { invalidateDatabase: jest.fn(async () => undefined) }
+}));
+
+const userId = '7';
+const databaseId = '42';
+
+const mockResponse = () => {
+  const res = { status: jest.fn(), json: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.json.mockReturnValue(res);
+  return res;
+};
+
+// Stores an analysis the way RAGService does after running a query
+const storeAnalysis = async (question: string, query: string, rows: any[]) => {
+  const documents = await VectorStoreService.processQueryResults(userId, databaseId, rows, question, query);
+  await VectorStoreService.addDocuments(userId, databaseId, documents.map(doc => ({
+    id: doc.metadata.id || 'unknown',
+    content: doc.pageContent,
+    metadata: doc.metadata
+  })));
+};
+
+const updateVisibility = async (body: Record<string, unknown>) => {
+  const res = mockResponse();
+  await RAGController.updateDatabaseVisibility(
+    { user: { userId }, params: { databaseId }, body } as unknown as Request,
+    res as unknown as Response
+  );
+  expect(res.status).toHaveBeenCalledWith(200);
+};
+
+describe('RAGController.updateDatabaseVisibility', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await VectorStoreService.clearVectorStore(userId, databaseId);
+    await CacheStoreProvider.close();
+  });
+
+  it('keeps values of a newly masked column out of the context, including SELECT * analyses', async () => {
+    await storeAnalysis('List employees', 'SELECT * FROM employees', [
+      { id: 1, name: 'Ada', salary: 9131 },
+      { id: 2, name: 'Grace', salary: 8742 }
+    ]);
+    await storeAnalysis('List employees', 'SELECT e.* FROM employees e', [{ id: 3, name: 'Alan', salary: 7353 }]);
+
+    const before = await VectorStoreService.getRelevantContext(userId, databaseId, 'employee salaries', 5);
+    expect(before).toContain('salary: 9131');
+
+    await updateVisibility({ maskedColumns: ['employees.salary'] });
+
+    const after = await VectorStoreService.getRelevantContext(userId, databaseId, 'employee salaries', 5);
+    expect(after).not.toMatch(/salary|9131|8742|7353/);
+  });
+});
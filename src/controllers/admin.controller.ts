@@ -0,0 +1,421 @@
+import { Request, Response } from 'express';
+import { Prisma, UserRole } from '@prisma/client';
+import { SubscriptionService } from '../utils/subscriptionService';
+import { TokenUsageService } from '../utils/tokenUsage';
+import { RateLimiterService } from '../utils/rateLimiter';
+import { TokenService } from '../utils/tokenService';
+import { formatUserPlan } from './plan.controller';
+import { prisma } from '../index';
+
+const userSelect = {
+  id: true,
+  first_name: true,
+  last_name: true,
+  email: true,
+  role: true,
+  phone_number: true,
+  email_verified_at: true,
+  is_active: true,
+  deactivated_at: true,
+  created_at: true,
+  updated_at: true
+} satisfies Prisma.usersSelect;
+
+const formatUser = (user: Prisma.usersGetPayload<{ select: typeof userSelect }>) => ({
+  ...user,
+  id: user.id.toString()
+});
+
+/**
+ * Parse the :userId route param, null when it is not a valid id
+ */
+const parseUserId = (value: string): bigint | null => {
+  return /^\d+$/.test(value) ? BigInt(value) : null;
+};
+
+export class AdminController {
+  /**
+   * List users, optionally filtered by a search term (name, email, phone) and role
+   */
+  static async listUsers(req: Request, res: Response) {
+    try {
+      const { search, role, status } = req.query;
+      const page = Math.max(Number(req.query.page) || 1, 1);
+      const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+
+      if (role !== undefined && !Object.values(UserRole).includes(role as UserRole)) {
+        return res.status(400).json({ success: false, error: 'Invalid role' });
+      }
+
+      const where: Prisma.usersWhereInput = {
+        ...(typeof search === 'string' && search.trim() && {
+          OR: [
+            { email: { contains: search.trim(), mode: 'insensitive' } },
+            { first_name: { contains: search.trim(), mode: 'insensitive' } },
+            { last_name: { contains: search.trim(), mode: 'insensitive' } },
+            { phone_number: { contains: search.trim() } }
+          ]
+        }),
+        ...(role !== undefined && { role: role as UserRole }),
+        ...(status === 'active' && { is_active: true }),
+        ...(status === 'deactivated' && { is_active: false })
+      };
+
+      const [users, total] = await Promise.all([
+        prisma.users.findMany({
+          where,
+          select: userSelect,
+          orderBy: { created_at: 'desc' },
+          skip: (page - 1) * limit,
+          take: limit
+        }),
+        prisma.users.count({ where })
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          users: users.map(formatUser),
+          pagination: { page, limit, total }
+        }
+      });
+
+    } catch (error) {
+      console.error('Admin list users error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to list users',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get a user with their active plan
+   */
+  static async getUser(req: Request, res: Response) {
+    try {
+      const userId = parseUserId(req.params.userId);
+      if (userId === null) {
+        return res.status(400).json({ success: false, error: 'Invalid user ID' });
+      }
+
+      const user = await prisma.users.findUnique({ where: { id: userId }, select: userSelect });
+      if (!user) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+
+      const activePlan = await SubscriptionService.getActivePlan(userId);
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          user: formatUser(user),
+          activePlan: activePlan ? formatUserPlan(activePlan) : null
+        }
+      });
+
+    } catch (error) {
+      console.error('Admin get user error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get user',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get a user's subscription history
+   */
+  static async getUserPlans(req: Request, res: Response) {
+    try {
+      const userId = parseUserId(req.params.userId);
+      if (userId === null) {
+        return res.status(400).json({ success: false, error: 'Invalid user ID' });
+      }
+
+      const history = await SubscriptionService.getPlanHistory(userId);
+
+      return res.status(200).json({
+        success: true,
+        data: history.map(formatUserPlan)
+      });
+
+    } catch (error) {
+      console.error('Admin get user plans error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get user plans',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get a user's connected databases (connection strings are never returned)
+   */
+  static async getUserDatabases(req: Request, res: Response) {
+    try {
+      const userId = parseUserId(req.params.userId);
+      if (userId === null) {
+        return res.status(400).json({ success: false, error: 'Invalid user ID' });
+      }
+
+      const databases = await prisma.user_databases.findMany({
+        where: { user_id: userId },
+        select: {
+          id: true,
+          database_type: true,
+          database_name: true,
+          is_active: true,
+          last_schema_update: true,
+          created_at: true,
+          updated_at: true
+        },
+        orderBy: { created_at: 'desc' }
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: databases.map(database => ({
+          ...database,
+          id: database.id.toString()
+        }))
+      });
+
+    } catch (error) {
+      console.error('Admin get user databases error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get user databases',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Get a user's token usage and rate limit state
+   */
+  static async getUserUsage(req: Request, res: Response) {
+    try {
+      const userId = parseUserId(req.params.userId);
+      if (userId === null) {
+        return res.status(400).json({ success: false, error: 'Invalid user ID' });
+      }
+
+      const userKey = userId.toString();
+      const [tokenUsage, rateLimitConfig, rateLimit] = await Promise.all([
+        TokenUsageService.getTokenBalance(userKey),
+        RateLimiterService.getRateLimitConfig(userKey),
+        RateLimiterService.getRemainingRequests(userKey)
+      ]);
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          tokenUsage,
+          rateLimit: {
+            ...rateLimitConfig,
+            ...rateLimit
+          }
+        }
+      });
+
+    } catch (error) {
+      console.error('Admin get user usage error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get user usage',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Reset a user's rate limit
+   */
+  static async resetRateLimit(req: Request, res: Response) {
+    try {
+      const userId = parseUserId(req.params.userId);
+      if (userId === null) {
+        return res.status(400).json({ success: false, error: 'Invalid user ID' });
+      }
+
+      await RateLimiterService.resetRateLimit(userId.toString());
+
+      return res.status(200).json({
+        success: true,
+        message: 'Rate limit reset successfully'
+      });
+
+    } catch (error) {
+      console.error('Admin reset rate limit error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to reset rate limit',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Manually grant a plan to a user (replaces the current plan)
+   */
+  static async grantPlan(req: Request, res: Response) {
+    try {
+      const userId = parseUserId(req.params.userId);
+      if (userId === null) {
+        return res.status(400).json({ success: false, error: 'Invalid user ID' });
+      }
+
+      const planId = Number(req.body.planId);
+      if (!Number.isInteger(planId)) {
+        return res.status(400).json({ success: false, error: 'planId is required' });
+      }
+
+      const [user, plan] = await Promise.all([
+        prisma.users.findUnique({ where: { id: userId }, select: { id: true } }),
+        prisma.plans.findUnique({ where: { id: planId } })
+      ]);
+      if (!user) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+      if (!plan) {
+        return res.status(404).json({ success: false, error: 'Plan not found' });
+      }
+
+      const userPlan = await SubscriptionService.activatePlan(userId, planId);
+      console.log(`Admin ${req.user!.userId} granted plan ${plan.name} to user ${userId}`);
+
+      return res.status(200).json({
+        success: true,
+        data: formatUserPlan(userPlan)
+      });
+
+    } catch (error) {
+      console.error('Admin grant plan error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to grant plan',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Manually revoke a user's active plan; the user falls back to the free plan
+   */
+  static async revokePlan(req: Request, res: Response) {
+    try {
+      const userId = parseUserId(req.params.userId);
+      const planId = Number(req.params.planId);
+      if (userId === null || !Number.isInteger(planId)) {
+        return res.status(400).json({ success: false, error: 'Invalid user or plan ID' });
+      }
+
+      const activePlan = await SubscriptionService.getActivePlan(userId);
+      if (!activePlan || activePlan.plan_id !== planId) {
+        return res.status(404).json({ success: false, error: 'User has no active subscription to this plan' });
+      }
+
+      await SubscriptionService.deactivatePlan(userId, planId);
+      console.log(`Admin ${req.user!.userId} revoked plan ${planId} from user ${userId}`);
+
+      const currentPlan = await SubscriptionService.getActivePlan(userId);
+
+      return res.status(200).json({
+        success: true,
+        message: 'Plan revoked successfully',
+        data: currentPlan ? formatUserPlan(currentPlan) : null
+      });
+
+    } catch (error) {
+      console.error('Admin revoke plan error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to revoke plan',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Deactivate an account: login is refused and every session is revoked
+   */
+  static async deactivateUser(req: Request, res: Response) {
+    try {
+      const userId = parseUserId(req.params.userId);
+      if (userId === null) {
+        return res.status(400).json({ success: false, error: 'Invalid user ID' });
+      }
+
+      if (userId.toString() === req.user!.userId) {
+        return res.status(400).json({ success: false, error: 'You cannot deactivate your own account' });
+      }
+
+      const user = await prisma.users.findUnique({ where: { id: userId }, select: { id: true } });
+      if (!user) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+
+      const updatedUser = await prisma.users.update({
+        where: { id: userId },
+        data: { is_active: false, deactivated_at: new Date() },
+        select: userSelect
+      });
+      await TokenService.revokeAllSessions(userId);
+      console.log(`Admin ${req.user!.userId} deactivated user ${userId}`);
+
+      return res.status(200).json({
+        success: true,
+        data: formatUser(updatedUser)
+      });
+
+    } catch (error) {
+      console.error('Admin deactivate user error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to deactivate user',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Reactivate a deactivated account
+   */
+  static async reactivateUser(req: Request, res: Response) {
+    try {
+      const userId = parseUserId(req.params.userId);
+      if (userId === null) {
+        return res.status(400).json({ success: false, error: 'Invalid user ID' });
+      }
+
+      const user = await prisma.users.findUnique({ where: { id: userId }, select: { id: true } });
+      if (!user) {
+        return res.status(404).json({ success: false, error: 'User not found' });
+      }
+
+      const updatedUser = await prisma.users.update({
+        where: { id: userId },
+        data: { is_active: true, deactivated_at: null },
+        select: userSelect
+      });
+      console.log(`Admin ${req.user!.userId} reactivated user ${userId}`);
+
+      return res.status(200).json({
+        success: true,
+        data: formatUser(updatedUser)
+      });
+
+    } catch (error) {
+      console.error('Admin reactivate user error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to reactivate user',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+}
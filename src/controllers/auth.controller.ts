@@ -1,10 +1,34 @@
-import { PrismaClient, UserRole } from '@prisma/client';
+import { PrismaClient, UserRole, UserTokenType } from '@prisma/client';
 import { AuthUtils } from '../utils/auth';
+import { TokenService, RefreshTokenError, SessionMetadata } from '../utils/tokenService';
+import { UserTokenService, InvalidUserTokenError } from '../utils/userTokenService';
+import { Mailer } from '../utils/mailer';
+import { AccountService } from '../utils/accountService';
+import { LoginProtectionService } from '../utils/loginProtection';
+import { sendTooManyAttempts } from '../middleware/authRateLimit';
 import { ValidationUtils } from '../utils/validation';
 import { Request, Response } from 'express';
 
 const prisma = new PrismaClient();
 
+const getSessionMetadata = (req: Request): SessionMetadata => ({
+  userAgent: req.headers['user-agent'],
+  ipAddress: req.ip
+});
+
+// Registration answers the same whether or not the email is taken, so registered emails cannot be enumerated
+const REGISTRATION_RESPONSE = {
+  message: 'Registration received. Check your email to verify your account, then log in.'
+};
+
+// Compared against when the email is unknown, so failed logins take as long with or without an account
+const DUMMY_PASSWORD_HASH = '$2b$12$PxFTDMMOT0h.yYj9wiktS.KlfJwWlEJfdxJNBMAT/NGTii4mw8Mhe';
+
+const sendVerificationEmail = async (user: { id: bigint; email: string; first_name: string }) => {
+  const token = await UserTokenService.createToken(user.id, UserTokenType.email_verification);
+  await Mailer.sendEmailVerification(user.email, user.first_name, token, UserTokenService.EMAIL_VERIFICATION_TTL_HOURS);
+};
+
 export const register = async (req: Request, res: Response) => {
   try {
     const { firstName, lastName, email, password, phoneNumber } = req.body;
@@ -26,22 +50,21 @@ export const register = async (req: Request, res: Response) => {
       });
     }
 
+    // Hashed before the lookup, so both outcomes take as long
+    const hashedPassword = await AuthUtils.hashPassword(password);
+
     // Check if user already exists
     const existingUser = await prisma.users.findFirst({
-      where: { email: email.toLowerCase() }
+      where: { email: email.toLowerCase().trim() }
     });
 
     if (existingUser) {
-      return res.status(409).json({
-        error: 'User already exists',
-        message: 'A user with this email already exists'
-      });
+      // Only the owner of the email learns about the attempt
+      Mailer.sendAccountExists(existingUser.email, existingUser.first_name)
+        .catch(mailError => console.error('Account exists email error:', mailError));
+      return res.status(202).json(REGISTRATION_RESPONSE);
     }
 
-
-    // Hash password
-    const hashedPassword = await AuthUtils.hashPassword(password);
-
     // Create user
     const newUser = await prisma.users.create({
       data: {
@@ -56,27 +79,10 @@ export const register = async (req: Request, res: Response) => {
       }
     });
 
-    // Generate JWT token
-    const token = AuthUtils.generateToken({
-      userId: newUser.id.toString(),
-      email: newUser.email,
-      role: newUser.role,
-      firstName:newUser.first_name,
-      lastName:newUser.last_name,
-      phoneNumber:newUser.phone_number
-    });
+    // Registration succeeds even if the mail cannot be sent, the user can ask for a new one
+    sendVerificationEmail(newUser).catch(mailError => console.error('Verification email error:', mailError));
 
-    // Return user data (without password) and token
-    const { password: _, ...userWithoutPassword } = newUser;
-
-    res.status(201).json({
-      message: 'User registered successfully',
-      user: {
-        ...userWithoutPassword,
-        id: userWithoutPassword.id.toString()
-      },
-      token
-    });
+    res.status(202).json(REGISTRATION_RESPONSE);
 
   } catch (error) {
     console.error('Registration error:', error);
@@ -102,37 +108,42 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
+    // Locked emails get the same answer whether or not the password is right
+    const lockout = await LoginProtectionService.checkLockout(email);
+    if (!lockout.allowed) {
+      return sendTooManyAttempts(res, lockout.retryAfterSeconds);
+    }
+
     // Find user by email
     const user = await prisma.users.findFirst({
       where: { email: email.toLowerCase() }
     });
 
-    if (!user) {
+    // Verify password (against a dummy hash for unknown emails, so the response time is the same)
+    const isPasswordValid = await AuthUtils.comparePassword(password, user?.password ?? DUMMY_PASSWORD_HASH);
+
+    if (!user || !isPasswordValid) {
+      await LoginProtectionService.recordFailedLogin(email, req.ip);
       return res.status(401).json({
         error: 'Invalid credentials',
         message: 'Email or password is incorrect'
       });
     }
 
-    // Verify password
-    const isPasswordValid = await AuthUtils.comparePassword(password, user.password);
+    await LoginProtectionService.recordSuccessfulLogin(email);
 
-    if (!isPasswordValid) {
-      return res.status(401).json({
-        error: 'Invalid credentials',
-        message: 'Email or password is incorrect'
+    if (!user.is_active) {
+      return res.status(403).json({
+        error: 'Account deactivated',
+        message: 'This account has been deactivated. Please contact support.'
       });
     }
 
-    // Generate JWT token
-    const token = AuthUtils.generateToken({
-      userId: user.id.toString(),
-      email: user.email,
-      role: user.role,
-      firstName:user.first_name,
-      lastName:user.last_name,
-      phoneNumber:user.phone_number
-    });
+    // Start a session: short-lived access token + refresh token
+    const { token, refreshToken, refreshTokenExpiresAt } = await TokenService.issueTokens(
+      TokenService.buildPayload(user),
+      getSessionMetadata(req)
+    );
 
     // Update last login timestamp
     await prisma.users.update({
@@ -149,7 +160,9 @@ export const login = async (req: Request, res: Response) => {
         ...userWithoutPassword,
         id: userWithoutPassword.id.toString()
       },
-      token
+      token,
+      refreshToken,
+      refreshTokenExpiresAt
     });
 
   } catch (error) {
@@ -174,6 +187,7 @@ export const getProfile = async (req: Request, res: Response) => {
         email: true,
         role: true,
         phone_number: true,
+        email_verified_at: true,
         created_at: true,
         updated_at: true
       }
@@ -202,30 +216,136 @@ export const getProfile = async (req: Request, res: Response) => {
   }
 };
 
-export const logout = (req: Request, res: Response) => {
-  res.json({
-    message: 'Logout successful',
-    note: 'Please remove the token from client storage'
-  });
-};
-
-export const refreshToken = async (req: Request, res: Response) => {
+export const updateProfile = async (req: Request, res: Response) => {
   try {
     const userId = BigInt((req as any).user!.userId);
+    const { firstName, lastName, phoneNumber } = req.body;
 
-    // Verify user still exists
-    const user = await prisma.users.findUnique({
+    const validation = ValidationUtils.validateProfileUpdateInput({ firstName, lastName, phoneNumber });
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: validation.errors
+      });
+    }
+
+    const existingUser = await prisma.users.findUnique({ where: { id: userId } });
+
+    if (!existingUser) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User profile not found'
+      });
+    }
+
+    const user = await prisma.users.update({
       where: { id: userId },
+      data: {
+        ...(firstName !== undefined && { first_name: firstName.trim() }),
+        ...(lastName !== undefined && { last_name: lastName.trim() }),
+        ...(phoneNumber !== undefined && { phone_number: phoneNumber.trim() })
+      },
       select: {
         id: true,
+        first_name: true,
+        last_name: true,
         email: true,
         role: true,
-        first_name: true,
-        last_name:true,
-        phone_number:true
+        phone_number: true,
+        email_verified_at: true,
+        created_at: true,
+        updated_at: true
       }
     });
 
+    res.json({
+      message: 'Profile updated successfully',
+      user: {
+        ...user,
+        id: user.id.toString()
+      }
+    });
+
+  } catch (error) {
+    console.error('Profile update error:', error);
+    res.status(500).json({
+      error: 'Profile update failed',
+      message: 'An error occurred while updating profile'
+    });
+  }
+};
+
+export const changePassword = async (req: Request, res: Response) => {
+  try {
+    const { userId, sid } = (req as any).user!;
+    const { currentPassword, newPassword } = req.body;
+
+    const validation = ValidationUtils.validateChangePasswordInput({ currentPassword, newPassword });
+
+    if (!validation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: validation.errors
+      });
+    }
+
+    const user = await prisma.users.findUnique({ where: { id: BigInt(userId) } });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User no longer exists'
+      });
+    }
+
+    const isPasswordValid = await AuthUtils.comparePassword(currentPassword, user.password);
+
+    if (!isPasswordValid) {
+      return res.status(401).json({
+        error: 'Invalid credentials',
+        message: 'Current password is incorrect'
+      });
+    }
+
+    await prisma.users.update({
+      where: { id: user.id },
+      data: { password: await AuthUtils.hashPassword(newPassword) }
+    });
+
+    // Keep the current session, sign out everywhere else
+    const revokedSessions = await TokenService.revokeAllSessions(user.id, sid);
+
+    res.json({
+      message: 'Password changed successfully',
+      revokedSessions
+    });
+
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      error: 'Password change failed',
+      message: 'An error occurred while changing password'
+    });
+  }
+};
+
+export const deleteAccount = async (req: Request, res: Response) => {
+  try {
+    const { userId, sid } = (req as any).user!;
+    const { password } = req.body;
+
+    if (!password || typeof password !== 'string') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Password is required to delete the account'
+      });
+    }
+
+    const user = await prisma.users.findUnique({ where: { id: BigInt(userId) } });
+
     if (!user) {
       return res.status(404).json({
         error: 'User not found',
@@ -233,26 +353,329 @@ export const refreshToken = async (req: Request, res: Response) => {
       });
     }
 
-    // Generate new token
-    const newToken = AuthUtils.generateToken({
-      userId: user.id.toString(),
-      email: user.email,
-      role: user.role,
-      firstName:user.first_name,
-      lastName:user.last_name,
-      phoneNumber:user.phone_number
+    const isPasswordValid = await AuthUtils.comparePassword(password, user.password);
+
+    if (!isPasswordValid) {
+      return res.status(401).json({
+        error: 'Invalid credentials',
+        message: 'Password is incorrect'
+      });
+    }
+
+    await AccountService.deleteAccount(user.id);
+    // The current session may have no live refresh token left to revoke
+    await TokenService.revokeSession(user.id, sid);
+
+    res.json({
+      message: 'Account deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Account deletion error:', error);
+    res.status(500).json({
+      error: 'Account deletion failed',
+      message: 'An error occurred while deleting the account'
+    });
+  }
+};
+
+export const logout = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user!;
+
+    await TokenService.revokeSession(user.userId, user.sid);
+    await TokenService.revokeAccessToken(user);
+
+    res.json({
+      message: 'Logout successful'
+    });
+
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      error: 'Logout failed',
+      message: 'An error occurred during logout'
+    });
+  }
+};
+
+export const logoutAll = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user!;
+
+    const revokedSessions = await TokenService.revokeAllSessions(user.userId);
+    // Also covers the current session if its refresh token already expired
+    await TokenService.revokeSession(user.userId, user.sid);
+
+    res.json({
+      message: 'Logged out of all devices',
+      revokedSessions
+    });
+
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      error: 'Logout failed',
+      message: 'An error occurred while logging out of all devices'
     });
+  }
+};
+
+export const refreshToken = async (req: Request, res: Response) => {
+  try {
+    const { refreshToken } = req.body;
+
+    if (!refreshToken || typeof refreshToken !== 'string') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Refresh token is required'
+      });
+    }
+
+    const tokens = await TokenService.rotateRefreshToken(refreshToken, getSessionMetadata(req));
 
     res.json({
       message: 'Token refreshed successfully',
-      token: newToken
+      token: tokens.token,
+      refreshToken: tokens.refreshToken,
+      refreshTokenExpiresAt: tokens.refreshTokenExpiresAt
     });
 
   } catch (error) {
+    if (error instanceof RefreshTokenError) {
+      return res.status(401).json({
+        error: 'Invalid refresh token',
+        message: error.message
+      });
+    }
+
     console.error('Token refresh error:', error);
     res.status(500).json({
       error: 'Token refresh failed',
       message: 'An error occurred while refreshing token'
     });
   }
-}; 
\ No newline at end of file
+};
+
+export const forgotPassword = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string' || !ValidationUtils.isValidEmail(email.trim())) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'A valid email is required'
+      });
+    }
+
+    const user = await prisma.users.findFirst({
+      where: { email: email.toLowerCase().trim() }
+    });
+
+    // Same response whether or not the account exists, so emails cannot be enumerated: failures are only
+    // logged, and the mail is not awaited so delivery time does not tell accounts apart either
+    if (user) {
+      try {
+        const token = await UserTokenService.createToken(user.id, UserTokenType.password_reset);
+        Mailer.sendPasswordReset(user.email, user.first_name, token, UserTokenService.PASSWORD_RESET_TTL_MINUTES)
+          .catch(error => console.error('Password reset email failed:', error));
+      } catch (error) {
+        console.error('Password reset token creation failed:', error);
+      }
+    }
+
+    res.json({
+      message: 'If an account exists for this email, a password reset link has been sent'
+    });
+
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      error: 'Password reset failed',
+      message: 'An error occurred while requesting a password reset'
+    });
+  }
+};
+
+export const resetPassword = async (req: Request, res: Response) => {
+  try {
+    const { token, password } = req.body;
+
+    if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Token and password are required'
+      });
+    }
+
+    const passwordValidation = ValidationUtils.isValidPassword(password);
+    if (!passwordValidation.isValid) {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Please check your input',
+        details: passwordValidation.errors
+      });
+    }
+
+    const userId = await UserTokenService.consumeToken(token, UserTokenType.password_reset);
+    const hashedPassword = await AuthUtils.hashPassword(password);
+
+    const user = await prisma.users.findUnique({ where: { id: userId } });
+    await prisma.users.update({
+      where: { id: userId },
+      data: {
+        password: hashedPassword,
+        // The reset link was delivered to this address, which proves ownership
+        email_verified_at: user?.email_verified_at ?? new Date()
+      }
+    });
+
+    // Sessions opened with the old password are no longer trusted
+    await TokenService.revokeAllSessions(userId);
+
+    res.json({
+      message: 'Password reset successfully, please log in again'
+    });
+
+  } catch (error) {
+    if (error instanceof InvalidUserTokenError) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: error.message
+      });
+    }
+
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      error: 'Password reset failed',
+      message: 'An error occurred while resetting password'
+    });
+  }
+};
+
+export const verifyEmail = async (req: Request, res: Response) => {
+  try {
+    const { token } = req.body;
+
+    if (!token || typeof token !== 'string') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Token is required'
+      });
+    }
+
+    const userId = await UserTokenService.consumeToken(token, UserTokenType.email_verification);
+
+    await prisma.users.update({
+      where: { id: userId },
+      data: { email_verified_at: new Date() }
+    });
+
+    res.json({
+      message: 'Email verified successfully'
+    });
+
+  } catch (error) {
+    if (error instanceof InvalidUserTokenError) {
+      return res.status(400).json({
+        error: 'Invalid token',
+        message: error.message
+      });
+    }
+
+    console.error('Email verification error:', error);
+    res.status(500).json({
+      error: 'Email verification failed',
+      message: 'An error occurred while verifying email'
+    });
+  }
+};
+
+export const resendVerification = async (req: Request, res: Response) => {
+  try {
+    const userId = BigInt((req as any).user!.userId);
+
+    const user = await prisma.users.findUnique({ where: { id: userId } });
+
+    if (!user) {
+      return res.status(404).json({
+        error: 'User not found',
+        message: 'User no longer exists'
+      });
+    }
+
+    if (user.email_verified_at) {
+      return res.status(400).json({
+        error: 'Already verified',
+        message: 'Email address is already verified'
+      });
+    }
+
+    await sendVerificationEmail(user);
+
+    res.json({
+      message: 'Verification email sent'
+    });
+
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      error: 'Verification email failed',
+      message: 'An error occurred while sending the verification email'
+    });
+  }
+};
+
+export const listLoginLockouts = async (req: Request, res: Response) => {
+  try {
+    const { email, active } = req.query;
+
+    const lockouts = await LoginProtectionService.listLockouts({
+      email: typeof email === 'string' ? email : undefined,
+      activeOnly: active === 'true'
+    });
+
+    res.json({
+      lockouts: lockouts.map(lockout => ({
+        ...lockout,
+        id: lockout.id.toString(),
+        user_id: lockout.user_id?.toString() ?? null,
+        unlocked_by: lockout.unlocked_by?.toString() ?? null
+      }))
+    });
+
+  } catch (error) {
+    console.error('List lockouts error:', error);
+    res.status(500).json({
+      error: 'Lockout fetch failed',
+      message: 'An error occurred while fetching login lockouts'
+    });
+  }
+};
+
+export const unlockLogin = async (req: Request, res: Response) => {
+  try {
+    const { email } = req.body;
+
+    if (!email || typeof email !== 'string') {
+      return res.status(400).json({
+        error: 'Validation failed',
+        message: 'Email is required'
+      });
+    }
+
+    const unlocked = await LoginProtectionService.unlock(email, (req as any).user!.userId);
+
+    res.json({
+      message: 'Login unlocked successfully',
+      unlockedLockouts: unlocked
+    });
+
+  } catch (error) {
+    console.error('Unlock login error:', error);
+    res.status(500).json({
+      error: 'Unlock failed',
+      message: 'An error occurred while unlocking the login'
+    });
+  }
+};
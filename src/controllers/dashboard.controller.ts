@@ -6,6 +6,9 @@ import { getUserDatabase } from '../utils/dashboardAnalysisService';
 import { formatAITablePrompt } from '../configs/langchain';
 import { openAIAnalysisLLM } from '../configs/langchain';
 import { OpenAILLM } from '../configs/langchain';
+import { TokenUsageService, TokenQuotaExceededError } from '../utils/tokenUsage';
+import { ConnectorRegistry, formatDialectRules } from '../utils/connectors';
+import { QueryEngine, QueryEngineError } from '../utils/queryEngine';
 
 // Protected endpoint: /api/dashboard/analysis
 export const dashboardAnalysis = async (req: Request, res: Response) => {
@@ -14,9 +17,18 @@ export const dashboardAnalysis = async (req: Request, res: Response) => {
     if (!userId) {
       return res.status(401).json({ message: 'Unauthorized: userId missing' });
     }
+    const tokenQuota = await TokenUsageService.checkTokenQuota(userId);
+    if (!tokenQuota.allowed) {
+      return res.status(403).json({
+        message: 'Token limit exceeded',
+        tokenUsage: { used: tokenQuota.used, limit: tokenQuota.limit, remaining: tokenQuota.remaining }
+      });
+    }
     // Optionally support databaseId override
     const databaseId = req.query.databaseId || req.body.databaseId;
     const result = await getDashboardAnalysis({ userId, databaseId });
+    const tokenBalance = await TokenUsageService.checkTokenQuota(userId);
+    const tokenUsage = { used: tokenBalance.used, limit: tokenBalance.limit, remaining: tokenBalance.remaining };
     
     if (result.insufficientData) {
       return res.status(200).json({ 
@@ -24,13 +36,18 @@ export const dashboardAnalysis = async (req: Request, res: Response) => {
         reason: result.reason,
         dataSummary: result.dataSummary,
         sqlQuery: result.sqlQuery,
-        rawData: result.rawData || []
+        queryAttempts: result.queryAttempts,
+        rawData: result.rawData || [],
+        tokenUsage
       });
     }
     
-    return res.status(200).json(result);
+    return res.status(200).json({ ...result, tokenUsage });
   } catch (error) {
     console.error('Dashboard analysis error:', error);
+    if (error instanceof TokenQuotaExceededError) {
+      return res.status(403).json({ message: 'Token limit exceeded', error: error.message });
+    }
     return res.status(500).json({ message: 'Internal server error', error: error instanceof Error ? error.message : error });
   }
 }; 
@@ -42,9 +59,17 @@ export const getAITable = async (req: Request, res: Response) => {
     if (!userId) {
       return res.status(401).json({ message: 'Unauthorized: userId missing' });
     }
+    const tokenQuota = await TokenUsageService.checkTokenQuota(userId);
+    if (!tokenQuota.allowed) {
+      return res.status(403).json({
+        message: 'Token limit exceeded',
+        tokenUsage: { used: tokenQuota.used, limit: tokenQuota.limit, remaining: tokenQuota.remaining }
+      });
+    }
     const databaseId = req.query.databaseId || req.body.databaseId;
     // Get user DB info
     const databaseInfo = await getUserDatabase(userId, databaseId);
+    const queryLimits = await DatabaseConnectionService.getQueryLimits(userId);
     // Query all products with category, inventory, and sales info
     const query = `
       SELECT 
@@ -60,20 +85,27 @@ export const getAITable = async (req: Request, res: Response) => {
       GROUP BY p.product_id, p.name, c.name, p.price, p.cost_price, i.quantity_in_stock, i.last_restocked
       ORDER BY p.product_id;
     `;
-    const products = await DatabaseConnectionService.executeQuery(databaseInfo.connectionString, databaseInfo.type, query);
+    const products = await DatabaseConnectionService.executeQuery(databaseInfo, query, queryLimits);
     // Prepare data for AI analysis
     const aiPrompt = formatAITablePrompt({ data: JSON.stringify(products) });
     // Use gpt-4.1-mini for this endpoint only
-    const aiResult = await new OpenAILLM('gpt-4.1-mini').call({ prompt: aiPrompt });
+    const aiResult = await new OpenAILLM('gpt-4.1-mini').call({ prompt: aiPrompt, userId });
     let table;
     try {
       table = typeof aiResult.text === 'string' ? JSON.parse(aiResult.text) : aiResult.text;
     } catch (e) {
       return res.status(500).json({ message: 'AI response parsing failed', error: e instanceof Error ? e.message : e });
     }
-    return res.status(200).json({ data: table });
+    const tokenBalance = await TokenUsageService.checkTokenQuota(userId);
+    return res.status(200).json({
+      data: table,
+      tokenUsage: { used: tokenBalance.used, limit: tokenBalance.limit, remaining: tokenBalance.remaining }
+    });
   } catch (error) {
     console.error('AI Table error:', error);
+    if (error instanceof TokenQuotaExceededError) {
+      return res.status(403).json({ message: 'Token limit exceeded', error: error.message });
+    }
     return res.status(500).json({ message: 'Internal server error', error: error instanceof Error ? error.message : error });
   }
 }; 
@@ -88,70 +120,60 @@ export const analyzeProduct = async (req: Request, res: Response) => {
     if (!productName) {
       return res.status(400).json({ success: false, error: 'Product name is required' });
     }
+    const tokenQuota = await TokenUsageService.checkTokenQuota(userId);
+    if (!tokenQuota.allowed) {
+      return res.status(403).json({
+        success: false,
+        error: 'Token limit exceeded',
+        tokenUsage: { used: tokenQuota.used, limit: tokenQuota.limit, remaining: tokenQuota.remaining }
+      });
+    }
     // 1. Get user's database info
     const { RAGService } = await import('../utils/ragService');
     const databaseInfo = await RAGService.getUserDatabase(userId, databaseId);
     // 2. Get schema
     const schema = await RAGService.getSchema(databaseInfo);
-    const schemaDescription = RAGService.formatSchemaForPrompt(schema);
+    const queryLimits = await DatabaseConnectionService.getQueryLimits(userId);
+    const schemaDescription = RAGService.formatSchemaForPrompt(schema, databaseInfo.visibility);
     // 3. LLM: Generate SQL query for all product data
-    const { openAIQueryLLM, openAIAnalysisLLM } = await import('../configs/langchain');
-    let dbInstructions = '';
-    if (schema.databaseType === 'mysql') {
-      dbInstructions = `\n- Use only MySQL 8.0 compatible syntax.\n- Do not use multiple CTEs (WITH ... AS ...), use subqueries if needed.\n- Do not include explanations or comments, only the SQL statement.\n- ONLY generate SELECT queries, NEVER INSERT, UPDATE, or DELETE operations.\n- Do not use double quotes for table or column names. Use backticks or no quotes.\n- For order status, use actual values from the database: 'delivered', 'shipped', 'processing', etc. Do NOT use 'Completed'. If unsure, use IN ('delivered', 'shipped', 'processing').`;
-    }
-    const sqlPrompt = `You are a SQL expert. Generate a MySQL 8.0 compatible SQL query to extract all available data for the product named '${productName}' from every relevant table in the provided schema. Include sales, prices, inventory, reviews, expiry, and any other related data. Use only SELECT statements. Do not use multiple CTEs or double quotes.\n\nDatabase Schema:\n${schemaDescription}${dbInstructions}`;
-    let sqlResult, sqlQuery, queryResult = [];
+    const { openAIAnalysisLLM } = await import('../configs/langchain');
+    const connector = ConnectorRegistry.get(schema.databaseType);
+    const dbInstructions = `${formatDialectRules(connector.promptHints)}\n- Do not include explanations or comments, only the query.\n- ONLY generate SELECT queries, NEVER INSERT, UPDATE, or DELETE operations.${QueryEngine.categoricalValuesRule(schema)}`;
+    const sqlPrompt = `You are a SQL expert. Generate a ${connector.promptHints.dialect} compatible query to extract all available data for the product named '${productName}' from every relevant table in the provided schema. Include sales, prices, inventory, reviews, expiry, and any other related data. Use only SELECT statements.\n\nDatabase Schema:\n${schemaDescription}${dbInstructions}`;
+    // Simple lookups when the generated query cannot be repaired
+    const quotedName = `'${String(productName).replace(/'/g, "''")}'`;
+    const fallbackQuery = schema.tables.some(t => t.name === 'products')
+      ? `SELECT * FROM products WHERE name = ${quotedName} LIMIT 1;`
+      : schema.tables.some(t => t.name === 'services')
+        ? `SELECT * FROM services WHERE name = ${quotedName} LIMIT 1;`
+        : 'SELECT * FROM information_schema.tables LIMIT 1;';
+    let queryResult: any[];
+    let queryAttempts;
     try {
-      sqlResult = await openAIQueryLLM.call({ prompt: sqlPrompt });
-      sqlQuery = sqlResult.text.trim().replace(/```sql|```/gi, '').trim();
-      const sqlMatch = sqlQuery.match(/SELECT[\s\S]*/i);
-      if (sqlMatch) {
-        sqlQuery = sqlMatch[0].trim();
-      } else {
-        throw new Error('Only SELECT queries are allowed for product analysis.');
-      }
-      if (schema.databaseType === 'mysql') {
-        sqlQuery = sqlQuery.replace(/"/g, '`');
-      }
-      queryResult = await (await import('../utils/databaseConnection')).DatabaseConnectionService.executeQuery(databaseInfo.connectionString, databaseInfo.type, sqlQuery);
+      const execution = await QueryEngine.run({
+        userId,
+        target: databaseInfo,
+        schema,
+        prompt: sqlPrompt,
+        limits: queryLimits,
+        fallbackQueries: [fallbackQuery]
+      });
+      queryResult = execution.rows;
+      queryAttempts = QueryEngine.summarizeAttempts(execution.attempts);
     } catch (error) {
-      // Retry with explicit alias/column instructions
-      const errorMsg = error instanceof Error ? error.message : String(error);
-      const fixPrompt = `${sqlPrompt}\n\nThe previous query failed with the following error for ${schema.databaseType}:\n${errorMsg}\nYou used an alias or column that does not exist or is not defined at the point of use. Double-check that all table aliases are defined before use, all columns referenced in JOINs exist in the correct tables, and fix any alias/column issues. Use only MySQL 8.0 compatible syntax. Do not use multiple CTEs. Do not use double quotes for table or column names. Use IN ('delivered','shipped','processing') for order status if needed.`;
-      try {
-        sqlResult = await openAIQueryLLM.call({ prompt: fixPrompt });
-        sqlQuery = sqlResult.text.trim().replace(/```sql|```/gi, '').trim();
-        const sqlMatch2 = sqlQuery.match(/SELECT[\s\S]*/i);
-        if (sqlMatch2) {
-          sqlQuery = sqlMatch2[0].trim();
-        } else {
-          throw new Error('Only SELECT queries are allowed for product analysis.');
-        }
-        if (schema.databaseType === 'mysql') {
-          sqlQuery = sqlQuery.replace(/"/g, '`');
-        }
-        queryResult = await (await import('../utils/databaseConnection')).DatabaseConnectionService.executeQuery(databaseInfo.connectionString, databaseInfo.type, sqlQuery);
-      } catch (secondError) {
-        // Fallback to a simple query
-        let fallbackQuery = '';
-        if (schema.tables.some(t => t.name === 'products')) {
-          fallbackQuery = `SELECT * FROM products WHERE name = '${productName}' LIMIT 1;`;
-        } else if (schema.tables.some(t => t.name === 'services')) {
-          fallbackQuery = `SELECT * FROM services WHERE name = '${productName}' LIMIT 1;`;
-        } else {
-          fallbackQuery = 'SELECT * FROM information_schema.tables LIMIT 1;';
-        }
-        try {
-          queryResult = await (await import('../utils/databaseConnection')).DatabaseConnectionService.executeQuery(databaseInfo.connectionString, databaseInfo.type, fallbackQuery);
-        } catch (finalError) {
-          return res.status(500).json({ success: false, error: 'Failed to analyze product', message: finalError instanceof Error ? finalError.message : 'Unknown error' });
-        }
+      if (error instanceof QueryEngineError) {
+        return res.status(500).json({
+          success: false,
+          error: 'Failed to analyze product',
+          message: error.message,
+          queryAttempts: QueryEngine.summarizeAttempts(error.result.attempts)
+        });
       }
+      throw error;
     }
     // 4. LLM: Generate structured analysis for the frontend
     const analysisPrompt = `Based on the following product data, generate the following sections for the frontend:\n1. salesChart: Data suitable for plotting a sales chart (e.g., months, sales, profit/loss).\n2. prices: For each price found, return the price, date, and a suggested price (based on similar products on the internet and historical data).\n3. expectedSales: Total expected revenue, expected rate (+/-%), most likely sales time (e.g., weekend, seasonal), and expected units sold.\n4. warning: Type, short notice, and a suggestion.\n5. smartSuggestions: 3-5 actionable suggestions, each with a title, a one-sentence description, and a list of benefits.\nFormat each section as a JSON object or array, matching the frontend structure in the provided example. Do not return markdown or explanations—just the structured JSON.\n\nProduct Data:\n${JSON.stringify(queryResult)}`;
-    const analysisResult = await openAIAnalysisLLM.call({ prompt: analysisPrompt });
+    const analysisResult = await openAIAnalysisLLM.call({ prompt: analysisPrompt, userId });
     let structured;
     try {
       let responseText = analysisResult.text;
@@ -175,8 +197,17 @@ export const analyzeProduct = async (req: Request, res: Response) => {
         rawResponse: analysisResult.text 
       });
     }
-    return res.status(200).json({ success: true, data: structured });
+    const tokenBalance = await TokenUsageService.checkTokenQuota(userId);
+    return res.status(200).json({
+      success: true,
+      data: structured,
+      queryAttempts,
+      tokenUsage: { used: tokenBalance.used, limit: tokenBalance.limit, remaining: tokenBalance.remaining }
+    });
   } catch (error) {
+    if (error instanceof TokenQuotaExceededError) {
+      return res.status(403).json({ success: false, error: 'Token limit exceeded', message: error.message });
+    }
     return res.status(500).json({ success: false, error: 'Failed to analyze product', message: error instanceof Error ? error.message : 'Unknown error' });
   }
 }; 
\ No newline at end of file
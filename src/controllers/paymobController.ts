@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import axios, { AxiosError } from "axios";
+import crypto from "crypto";
 import { PrismaClient } from '@prisma/client';
 import { paymobConfig } from "../configs/paymob";
 import { success, error } from "../utils/responseHandler";
@@ -22,7 +23,7 @@ export const buyPlan = async (req: Request<{ id: string }>, res: Response) => {
 
     // Fetch plan from database
     const plan = await prisma.plans.findFirst({
-      where: { id: planId },
+      where: { id: planId, is_active: true },
     });
 
     if (!plan) {
@@ -45,10 +46,14 @@ export const buyPlan = async (req: Request<{ id: string }>, res: Response) => {
       // postal_code: "N/A",
     };
 
+    // Reference used by the webhook to find this purchase intent
+    const reference = crypto.randomUUID();
+    const currency = "EGP";
+
     // Prepare Paymob intention data
     const intentionData = {
       amount: plan.price, // Convert to cents as Paymob requires
-      currency: "EGP",
+      currency,
       payment_methods: [paymobConfig.cardMethodId],
       items: [
         {
@@ -59,9 +64,9 @@ export const buyPlan = async (req: Request<{ id: string }>, res: Response) => {
         },
       ],
       billing_data: billingData,
+      special_reference: reference,
       extras: {
-        user:req.user,
-        plan,
+        reference,
       },
     };
 
@@ -82,15 +87,19 @@ export const buyPlan = async (req: Request<{ id: string }>, res: Response) => {
     const paymentLink = `https://accept.paymob.com/unifiedcheckout/?publicKey=${paymobConfig.publicKey}&clientSecret=${clientSecret}`;
 
     // Store purchase intent in database
-    // await prisma.purchaseIntents.create({
-    //   data: {
-    //     userId,
-    //     planId: plan.id,
-    //     clientSecret,
-    //     amount: plan.amount,
-    //     status: "PENDING",
-    //   },
-    // });
+    await prisma.purchase_intents.create({
+      data: {
+        user_id: BigInt(userId),
+        plan_id: plan.id,
+        reference,
+        client_secret: clientSecret,
+        intention_id: response.data.id ? String(response.data.id) : null,
+        paymob_order_id: response.data.intention_order_id ? BigInt(response.data.intention_order_id) : null,
+        amount: plan.price,
+        currency,
+        status: "pending",
+      },
+    });
 
     return success(res, {
       paymentLink,
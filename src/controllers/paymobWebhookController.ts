@@ -1,8 +1,6 @@
 import { Request, Response } from "express";
-import { plans, PrismaClient } from "@prisma/client";
-import crypto from "crypto";
-import { paymobConfig } from "../configs/paymob";
-import { JWTPayload } from "../utils/auth";
+import { PrismaClient, PurchaseIntentStatus } from "@prisma/client";
+import { SubscriptionService } from "../utils/subscriptionService";
 
 // Initialize Prisma client
 const prisma = new PrismaClient();
@@ -14,13 +12,19 @@ interface PaymobWebhookPayload {
     amount_cents: number;
     currency: string;
     success: boolean;
+    pending: boolean;
+    is_refunded: boolean;
+    is_voided: boolean;
     error_occured: boolean;
     created_at: string;
     integration_id: number;
+    order: {
+      id: number;
+      merchant_order_id: string | null;
+    };
     payment_key_claims: {
       extra: {
-        plan: plans;
-        user: JWTPayload;
+        reference?: string;
       };
 
       Order_id: number;
@@ -39,20 +43,24 @@ interface PaymobWebhookPayload {
   transaction_processed_callback_responses: string;
 }
 
-// HMAC verification function
-const verifyHmac = (payload: any, hmac: string): boolean => {
-  const hmacSecret = paymobConfig.hmacSecret; // Ensure this is defined in paymobConfig
-  if (!hmacSecret) {
-    console.error("❌ HMAC secret not configured");
-    return false;
-  }
-
-  const calculatedHmac = crypto
-    .createHmac("sha512", hmacSecret)
-    .update(JSON.stringify(payload))
-    .digest("hex");
+/**
+ * Find the purchase intent a Paymob transaction belongs to. Only order.id is covered by the HMAC,
+ * so references and intention ids in the payload are never trusted.
+ */
+const findPurchaseIntent = async (transaction: PaymobWebhookPayload["obj"]) => {
+  const orderId = transaction.order?.id;
+  if (!orderId) return null;
+
+  return await prisma.purchase_intents.findUnique({
+    where: { paymob_order_id: BigInt(orderId) },
+  });
+};
 
-  return calculatedHmac === hmac;
+const getTransactionStatus = (transaction: PaymobWebhookPayload["obj"]): PurchaseIntentStatus => {
+  if (transaction.is_refunded || transaction.is_voided) return "refunded";
+  if (transaction.success) return "success";
+  if (transaction.pending) return "pending";
+  return "failed";
 };
 
 export const handleWebhook = async (
@@ -70,92 +78,122 @@ export const handleWebhook = async (
       return;
     }
     const transaction = payload.obj;
-    const userId = transaction.payment_key_claims?.extra?.user?.userId;
-    const planId = transaction.payment_key_claims?.extra?.plan?.id;
-    const paid = transaction.success;
 
-    if (!userId || !planId) {
-      console.error("❌ Missing required fields in webhook payload");
+    if (!transaction.id) {
+      console.error("❌ Missing transaction id in webhook payload");
       res.status(400).send("Missing required fields");
       return;
     }
 
-    // // Update or create purchase intent in database
-    // const purchaseIntent = await prisma.purchaseIntents.upsert({
-    //   where: { clientSecret },
-    //   update: {
-    //     status: paid ? "SUCCESS" : "FAILED",
-    //     transactionId: transaction.id,
-    //     updatedAt: new Date(transaction.created_at),
-    //   },
-    //   create: {
-    //     userId,
-    //     planId,
-    //     clientSecret,
-    //     amount: transaction.amount_cents / 100, // Convert back to EGP
-    //     status: paid ? "SUCCESS" : "FAILED",
-    //     transactionId: transaction.id,
-    //     createdAt: new Date(transaction.created_at),
-    //   },
-    // });
-
-    // Log payment status
-    if (paid) {
-      console.log(
-        `✅ Payment SUCCESS by user ID: ${userId}, Plan ID: ${planId}, Transaction ID: ${transaction.id}`
-      );
-    } else {
+    const intent = await findPurchaseIntent(transaction);
+    if (!intent) {
+      console.error(`❌ No purchase intent found for transaction ID: ${transaction.id}`);
+      res.status(404).send("Purchase intent not found");
+      return;
+    }
+
+    const transactionId = BigInt(transaction.id);
+    let status = getTransactionStatus(transaction);
+
+    // Never grant a plan for a different amount or currency than the one we asked for
+    if (
+      status === "success" &&
+      (transaction.amount_cents !== intent.amount || transaction.currency !== intent.currency)
+    ) {
       console.error(
-        `❌ Payment FAILED by user ID: ${userId}, Plan ID: ${planId}, Transaction ID: ${transaction.id}`
+        `❌ Amount mismatch for purchase intent ${intent.id}: expected ${intent.amount} ${intent.currency}, got ${transaction.amount_cents} ${transaction.currency}`
       );
+      status = "failed";
+    }
+
+    // Duplicate or replayed delivery: nothing changed since we last saw this transaction
+    const existingTransaction = await prisma.payment_transactions.findUnique({
+      where: { transaction_id: transactionId },
+    });
+    if (existingTransaction && existingTransaction.status === status) {
+      console.log(`ℹ️ Duplicate webhook for transaction ID: ${transaction.id}, ignoring`);
+      res.sendStatus(200);
+      return;
     }
 
-    // Optionally update user subscription status
-    if (paid) {
-      // Check if user_id exists
-      const user = await prisma.users.findUnique({
-        where: { id: BigInt(userId) },
+    // A refund is final: replaying an earlier callback of the transaction must not undo it
+    if (existingTransaction?.status === "refunded") {
+      console.log(`ℹ️ Transaction ID: ${transaction.id} was refunded, ignoring ${status} callback`);
+      res.sendStatus(200);
+      return;
+    }
+
+    // Record every transaction, including failed and refunded ones
+    await prisma.payment_transactions.upsert({
+      where: { transaction_id: transactionId },
+      update: {
+        status,
+        payload: transaction as any,
+      },
+      create: {
+        transaction_id: transactionId,
+        purchase_intent_id: intent.id,
+        status,
+        amount_cents: transaction.amount_cents,
+        currency: transaction.currency,
+        payload: transaction as any,
+      },
+    });
+
+    const userId = intent.user_id;
+    const planId = intent.plan_id;
+
+    if (status === "success") {
+      // Only the first successful delivery may fulfil the intent, and never a refunded one
+      const claimed = await prisma.$transaction(async (tx) => {
+        const result = await tx.purchase_intents.updateMany({
+          where: { id: intent.id, status: { in: ["pending", "failed"] } },
+          data: { status: "success", transaction_id: transactionId },
+        });
+        if (result.count > 0) {
+          await SubscriptionService.activatePlan(userId, planId, tx);
+        }
+        return result;
       });
 
-      if (!user) {
-        console.error(`❌ User with ID ${userId} not found`);
-        res.status(400).send(`User with ID ${userId} not found`);
+      if (claimed.count === 0) {
+        console.log(`ℹ️ Purchase intent ${intent.id} already fulfilled or refunded, ignoring transaction ID: ${transaction.id}`);
+        res.sendStatus(200);
         return;
       }
 
-      // Check if plan_id exists
-      const plan = await prisma.plans.findUnique({
-        where: { id: planId },
+      console.log(
+        `✅ Payment SUCCESS by user ID: ${userId}, Plan ID: ${planId}, Transaction ID: ${transaction.id}`
+      );
+
+    } else if (status === "refunded") {
+      console.error(
+        `↩️ Payment REFUNDED for user ID: ${userId}, Plan ID: ${planId}, Transaction ID: ${transaction.id}`
+      );
+
+      const wasFulfilled = intent.status === "success" && intent.transaction_id === transactionId;
+
+      await prisma.purchase_intents.update({
+        where: { id: intent.id },
+        data: { status: "refunded" },
       });
 
-      if (!plan) {
-        console.error(`❌ Plan with ID ${planId} not found`);
-        res.status(400).send(`Plan with ID ${planId} not found`);
-        return;
+      // Take back the plan this transaction granted
+      if (wasFulfilled) {
+        await SubscriptionService.deactivatePlan(userId, planId);
       }
+    } else if (status === "failed") {
+      console.error(
+        `❌ Payment FAILED by user ID: ${userId}, Plan ID: ${planId}, Transaction ID: ${transaction.id}`
+      );
 
-      await prisma.user_plans.upsert({
-        where: {
-          user_id_plan_id: {
-            user_id: BigInt(userId),
-            plan_id: planId,
-          },
-        },
-        update: {
-          is_active: true,
-          start_date: new Date(),
-          end_date: null,
-          tokens_used: 0,
-        },
-        create: {
-          user_id: BigInt(userId),
-          plan_id: planId,
-          is_active: true,
-          start_date: new Date(),
-          end_date: null,
-          tokens_used: 0,
-        },
+      // A failed attempt must not override an already fulfilled or refunded intent
+      await prisma.purchase_intents.updateMany({
+        where: { id: intent.id, status: "pending" },
+        data: { status: "failed" },
       });
+    } else {
+      console.log(`⏳ Payment PENDING for user ID: ${userId}, Plan ID: ${planId}, Transaction ID: ${transaction.id}`);
     }
 
     res.sendStatus(200);
@@ -1,6 +1,7 @@
 import { PrismaClient } from '@prisma/client';
 import { Request, Response } from 'express';
 import { ValidationUtils } from '../utils/validation';
+import { SubscriptionService } from '../utils/subscriptionService';
 
 const prisma = new PrismaClient();
 
@@ -11,7 +12,21 @@ export const addPlan = async (req: Request, res: Response) => {
             return res.status(400).json({ errors: validation.errors });
         }
 
-        const { name, features, price, is_active, token_limit } = req.body;
+        const {
+            name,
+            description,
+            features,
+            price,
+            is_active,
+            token_limit,
+            database_limit_number,
+            billing_period_days,
+            rate_limit_points,
+            rate_limit_duration,
+            rate_limit_block_duration,
+            query_timeout_ms,
+            query_row_limit
+        } = req.body;
         
         const existingPlan = await prisma.plans.findFirst({
             where: { name: name }
@@ -24,10 +39,18 @@ export const addPlan = async (req: Request, res: Response) => {
         const newPlan = await prisma.plans.create({
             data: {
                 name,
+                description,
                 features,
                 price,
                 is_active,
                 token_limit,
+                database_limit_number,
+                billing_period_days,
+                rate_limit_points,
+                rate_limit_duration,
+                rate_limit_block_duration,
+                query_timeout_ms,
+                query_row_limit,
             },
         });
 
@@ -53,7 +76,144 @@ export const listPlans = async (req: Request, res: Response) => {
     }
 }
 
+export const listInactivePlans = async (req: Request, res: Response) => {
+    try {
+        const plans = await prisma.plans.findMany({
+            where: {
+                is_active: false
+            }
+        });
+        return res.status(200).json(plans);
+    } catch (error) {
+        console.error('Error listing inactive plans:', error);
+        return res.status(500).json({ error: 'Failed to retrieve plans due to a server error.' });
+    }
+}
+
+
+export const updatePlan = async (req: Request, res: Response) => {
+    try {
+        const planId = Number(req.params.id);
+        if (!Number.isInteger(planId)) {
+            return res.status(400).json({ error: 'Invalid plan ID.' });
+        }
+
+        const validation = ValidationUtils.validateUpdatePlanInput(req.body);
+        if (!validation.isValid) {
+            return res.status(400).json({ errors: validation.errors });
+        }
 
+        const existingPlan = await prisma.plans.findUnique({ where: { id: planId } });
+        if (!existingPlan) {
+            return res.status(404).json({ error: 'Plan not found.' });
+        }
 
+        // Existing user_plans keep pointing at this row; price changes only apply to new purchases
+        const updatedPlan = await prisma.plans.update({
+            where: { id: planId },
+            data: req.body,
+        });
 
+        return res.status(200).json(updatedPlan);
+    } catch (error) {
+        console.error('Error updating plan:', error);
+        return res.status(500).json({ error: 'Failed to update plan due to a server error.' });
+    }
+}
 
+
+export const archivePlan = async (req: Request, res: Response) => {
+    try {
+        const planId = Number(req.params.id);
+        if (!Number.isInteger(planId)) {
+            return res.status(400).json({ error: 'Invalid plan ID.' });
+        }
+
+        const existingPlan = await prisma.plans.findUnique({ where: { id: planId } });
+        if (!existingPlan) {
+            return res.status(404).json({ error: 'Plan not found.' });
+        }
+
+        // Archived plans can no longer be bought, current subscribers keep them until they expire
+        const archivedPlan = await prisma.plans.update({
+            where: { id: planId },
+            data: { is_active: false },
+        });
+
+        return res.status(200).json(archivedPlan);
+    } catch (error) {
+        console.error('Error archiving plan:', error);
+        return res.status(500).json({ error: 'Failed to archive plan due to a server error.' });
+    }
+}
+
+
+export const getFeatureMatrix = async (req: Request, res: Response) => {
+    try {
+        const plans = await prisma.plans.findMany({
+            where: { is_active: true },
+            orderBy: { price: 'asc' }
+        });
+
+        // Union of feature keys across plans, each plan lists its value (null when missing)
+        const featureKeys = Array.from(new Set(
+            plans.flatMap(plan => Object.keys((plan.features as Record<string, any>) || {}))
+        ));
+
+        return res.status(200).json({
+            features: featureKeys,
+            plans: plans.map(plan => {
+                const features = (plan.features as Record<string, any>) || {};
+                return {
+                    id: plan.id,
+                    name: plan.name,
+                    price: plan.price,
+                    token_limit: plan.token_limit,
+                    database_limit_number: plan.database_limit_number,
+                    billing_period_days: plan.billing_period_days,
+                    rate_limit_points: plan.rate_limit_points,
+                    query_row_limit: plan.query_row_limit,
+                    features: Object.fromEntries(featureKeys.map(key => [key, features[key] ?? null]))
+                };
+            })
+        });
+    } catch (error) {
+        console.error('Error building feature matrix:', error);
+        return res.status(500).json({ error: 'Failed to retrieve feature matrix due to a server error.' });
+    }
+}
+
+
+export const formatUserPlan = (userPlan: any) => ({
+    id: userPlan.id.toString(),
+    plan: userPlan.plan,
+    start_date: userPlan.start_date,
+    end_date: userPlan.end_date,
+    is_active: userPlan.is_active,
+    tokens_used: userPlan.tokens_used,
+    tokens_remaining: Math.max(userPlan.plan.token_limit - userPlan.tokens_used, 0)
+});
+
+export const getCurrentPlan = async (req: Request, res: Response) => {
+    try {
+        const userPlan = await SubscriptionService.getActivePlan(req.user!.userId);
+        if (!userPlan) {
+            return res.status(404).json({ error: 'No active plan found.' });
+        }
+        return res.status(200).json(formatUserPlan(userPlan));
+    } catch (error) {
+        console.error('Error getting current plan:', error);
+        return res.status(500).json({ error: 'Failed to retrieve current plan due to a server error.' });
+    }
+}
+
+
+export const getPlanHistory = async (req: Request, res: Response) => {
+    try {
+        const history = await SubscriptionService.getPlanHistory(req.user!.userId);
+        return res.status(200).json(history.map(formatUserPlan));
+    } catch (error) {
+        console.error('Error getting plan history:', error);
+        return res.status(500).json({ error: 'Failed to retrieve plan history due to a server error.' });
+    }
+}
@@ -1,9 +1,17 @@
 import { Request, Response } from 'express';
-import { RAGService, RAGRequest, getUserMemory as getUserMemoryHelper, userMemories as userMemoryMap, loadConversationHistory, saveConversation } from '../utils/ragService';
+import { RAGService, RAGRequest, getUserMemory as getUserMemoryHelper, clearUserMemory as clearUserMemoryHelper, loadConversationHistory, saveConversation } from '../utils/ragService';
 import { DatabaseConnectionService } from '../utils/databaseConnection';
 import { VectorStoreService } from '../utils/vectorStore';
 import { EncryptionService } from '../utils/encryption';
 import { RateLimiterService } from '../utils/rateLimiter';
+import { TokenUsageService, TokenQuotaExceededError } from '../utils/tokenUsage';
+import { SubscriptionService } from '../utils/subscriptionService';
+import { ConnectorRegistry, formatDialectRules } from '../utils/connectors';
+import { ValidationUtils } from '../utils/validation';
+import { SchemaDriftService } from '../utils/schemaDriftService';
+import { SchemaVisibility } from '../utils/schemaVisibility';
+import { QueryEngine, QueryEngineError } from '../utils/queryEngine';
+import { SemanticCacheService } from '../utils/semanticCache';
 import { prisma } from '../index';
 
 export class RAGController {
@@ -27,7 +35,21 @@ export class RAGController {
         });
       }
 
-      const { question, databaseId, context, useGeneralKnowledge } = req.body;
+      // Check token quota of the user's plan
+      const tokenQuota = await TokenUsageService.checkTokenQuota(userId);
+      if (!tokenQuota.allowed) {
+        return res.status(403).json({
+          success: false,
+          error: 'Token limit exceeded',
+          tokenUsage: {
+            used: tokenQuota.used,
+            limit: tokenQuota.limit,
+            remaining: tokenQuota.remaining
+          }
+        });
+      }
+
+      const { question, databaseId, context, useGeneralKnowledge, noCache } = req.body;
 
       // Validate required fields
       if (!question) {
@@ -40,10 +62,12 @@ export class RAGController {
         userId,
         databaseId,
         context,
-        useGeneralKnowledge: !!useGeneralKnowledge // default to false if not sent
+        useGeneralKnowledge: !!useGeneralKnowledge, // default to false if not sent
+        noCache: noCache === true
       };
 
       const result = await RAGService.processRequest(ragRequest);
+      const tokenBalance = await TokenUsageService.checkTokenQuota(userId);
 
       // Extract tables used if a query is present
       let tablesUsed: string[] = [];
@@ -51,23 +75,34 @@ export class RAGController {
         tablesUsed = RAGService.extractTableNamesFromSQL(result.query);
         delete result.query;
       }
+      // Queries are not shown here, so neither are the attempted ones
+      const queryAttempts = result.queryAttempts && QueryEngine.summarizeAttempts(result.queryAttempts);
 
       return res.status(200).json({
         success: true,
         message: 'Analysis completed successfully',
-        data: { ...result, tablesUsed },
+        data: { ...result, queryAttempts, tablesUsed },
         rateLimit: {
           remaining: rateLimit.remaining,
           resetTime: rateLimit.resetTime
+        },
+        tokenUsage: {
+          used: tokenBalance.used,
+          limit: tokenBalance.limit,
+          remaining: tokenBalance.remaining
         }
       });
 
     } catch (error) {
       console.error('RAG analysis error:', error);
+      if (error instanceof TokenQuotaExceededError) {
+        return res.status(403).json({ success: false, error: 'Token limit exceeded', message: error.message });
+      }
       return res.status(500).json({
         success: false,
         error: 'Failed to analyze data',
-        message: error instanceof Error ? error.message : 'Unknown error'
+        message: error instanceof Error ? error.message : 'Unknown error',
+        queryAttempts: error instanceof QueryEngineError ? QueryEngine.summarizeAttempts(error.result.attempts) : undefined
       });
     }
   }
@@ -83,27 +118,29 @@ export class RAGController {
         return res.status(401).json({ success: false, error: 'User not authenticated' });
       }
 
-      const { connectionString, databaseName } = req.body;
+      const { connectionString, databaseName, includeSchemas, excludeSchemas, profileColumns } = req.body;
 
       // Validate required fields
       if (!connectionString) {
         return res.status(400).json({ success: false, error: 'Connection string is required' });
       }
 
+      const schemaValidation = ValidationUtils.validateSchemaFilterInput({ includeSchemas, excludeSchemas });
+      if (!schemaValidation.isValid) {
+        return res.status(400).json({ success: false, error: 'Validation failed', details: schemaValidation.errors });
+      }
+      const schemas = { include: includeSchemas ?? [], exclude: excludeSchemas ?? [] };
+
+      if (profileColumns !== undefined && typeof profileColumns !== 'boolean') {
+        return res.status(400).json({ success: false, error: 'profileColumns must be a boolean' });
+      }
+
       // Detect database type
       const databaseType = DatabaseConnectionService.detectDatabaseType(connectionString);
       const extractedDbName = databaseName || DatabaseConnectionService.extractDatabaseName(connectionString, databaseType);
 
       // Check user's database limit
-      const userPlan = await prisma.user_plans.findFirst({
-        where: {
-          user_id: BigInt(userId),
-          is_active: true
-        },
-        include: {
-          plan: true
-        }
-      });
+      const userPlan = await SubscriptionService.getActivePlan(userId);
 
       if (userPlan) {
         const currentDatabases = await prisma.user_databases.count({
@@ -123,7 +160,10 @@ export class RAGController {
 
       // Test connection
       const encryptedConnectionString = EncryptionService.encrypt(connectionString);
-      const connectionTest = await DatabaseConnectionService.testConnection(encryptedConnectionString, databaseType);
+      const connectionTest = await DatabaseConnectionService.testConnection({
+        type: databaseType,
+        connectionString: encryptedConnectionString
+      });
       
       if (!connectionTest.success) {
         return res.status(400).json({
@@ -134,7 +174,12 @@ export class RAGController {
       }
 
       // Get schema for caching
-      const schema = await DatabaseConnectionService.getSchema(encryptedConnectionString, databaseType);
+      const schema = await DatabaseConnectionService.getSchema({
+        type: databaseType,
+        connectionString: encryptedConnectionString,
+        schemas,
+        profileColumns: profileColumns === true
+      });
 
       // Check if database already exists for this user
       const existingDatabase = await prisma.user_databases.findFirst({
@@ -145,32 +190,24 @@ export class RAGController {
         }
       });
 
-      let userDatabase;
-      
-      if (existingDatabase) {
-        // Update existing database
-        userDatabase = await prisma.user_databases.update({
-          where: { id: existingDatabase.id },
-          data: {
-            database_type: databaseType,
-            connection_string: encryptedConnectionString,
-            schema_cache: schema as any,
-            last_schema_update: new Date()
-          }
-        });
-      } else {
-        // Create new database
-        userDatabase = await prisma.user_databases.create({
-          data: {
-            user_id: BigInt(userId),
-            database_type: databaseType,
-            connection_string: encryptedConnectionString,
-            database_name: extractedDbName,
-            schema_cache: schema as any,
-            is_active: true
-          }
-        });
-      }
+      const settings = {
+        database_type: databaseType,
+        connection_string: encryptedConnectionString,
+        included_schemas: schemas.include,
+        excluded_schemas: schemas.exclude,
+        profiling_enabled: profileColumns === true
+      };
+
+      // Update the existing database, or create a new one; the schema is recorded as a new version either way
+      const userDatabase = existingDatabase ?? await prisma.user_databases.create({
+        data: {
+          ...settings,
+          user_id: BigInt(userId),
+          database_name: extractedDbName,
+          is_active: true
+        }
+      });
+      await SchemaDriftService.recordSchema(userDatabase, schema, existingDatabase ? settings : {});
 
       return res.status(201).json({
         success: true,
@@ -178,7 +215,7 @@ export class RAGController {
         data: {
           id: userDatabase.id.toString(),
           name: userDatabase.database_name,
-          type: userDatabase.database_type,
+          type: databaseType,
           schema: schema
         }
       });
@@ -212,6 +249,9 @@ export class RAGController {
           id: true,
           database_name: true,
           database_type: true,
+          included_schemas: true,
+          excluded_schemas: true,
+          profiling_enabled: true,
           created_at: true,
           last_schema_update: true
         }
@@ -223,6 +263,9 @@ export class RAGController {
           id: db.id.toString(),
           name: db.database_name,
           type: db.database_type,
+          includeSchemas: db.included_schemas,
+          excludeSchemas: db.excluded_schemas,
+          profileColumns: db.profiling_enabled,
           createdAt: db.created_at,
           lastSchemaUpdate: db.last_schema_update
         }))
@@ -266,31 +309,361 @@ export class RAGController {
         return res.status(404).json({ success: false, error: 'Database not found' });
       }
 
-      // Get fresh schema
-      const schema = await DatabaseConnectionService.getSchema(
-        userDatabase.connection_string,
-        userDatabase.database_type
-      );
+      // Cached schema, kept current by the drift job; introspect only when there is none yet
+      if (!userDatabase.schema_cache) {
+        const { schema, version } = await SchemaDriftService.refresh(userDatabase);
+        return res.status(200).json({ success: true, data: schema, version, lastUpdated: new Date() });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: userDatabase.schema_cache,
+        version: userDatabase.schema_version,
+        lastUpdated: userDatabase.last_schema_update
+      });
+
+    } catch (error) {
+      console.error('Get schema error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get schema',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Introspect a database now and record schema drift
+   */
+  static async refreshDatabaseSchema(req: Request, res: Response) {
+    try {
+      const userId = (req as any).user?.userId;
+      const { databaseId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({ success: false, error: 'User not authenticated' });
+      }
+
+      if (!databaseId) {
+        return res.status(400).json({ success: false, error: 'Database ID is required' });
+      }
+
+      const userDatabase = await prisma.user_databases.findFirst({
+        where: {
+          id: BigInt(databaseId),
+          user_id: BigInt(userId),
+          is_active: true
+        }
+      });
+
+      if (!userDatabase) {
+        return res.status(404).json({ success: false, error: 'Database not found' });
+      }
+
+      const result = await SchemaDriftService.refresh(userDatabase);
+
+      return res.status(200).json({
+        success: true,
+        data: result
+      });
+
+    } catch (error) {
+      console.error('Refresh schema error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to refresh schema',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Schema versions of a database with their changes
+   */
+  static async getSchemaHistory(req: Request, res: Response) {
+    try {
+      const userId = (req as any).user?.userId;
+      const { databaseId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({ success: false, error: 'User not authenticated' });
+      }
+
+      if (!databaseId) {
+        return res.status(400).json({ success: false, error: 'Database ID is required' });
+      }
+
+      const userDatabase = await prisma.user_databases.findFirst({
+        where: {
+          id: BigInt(databaseId),
+          user_id: BigInt(userId),
+          is_active: true
+        }
+      });
+
+      if (!userDatabase) {
+        return res.status(404).json({ success: false, error: 'Database not found' });
+      }
+
+      const history = await SchemaDriftService.getHistory(databaseId);
+
+      return res.status(200).json({
+        success: true,
+        data: history.map(entry => ({
+          version: entry.version,
+          changes: entry.changes,
+          createdAt: entry.created_at
+        }))
+      });
+
+    } catch (error) {
+      console.error('Get schema history error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get schema history',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Set the schemas introspected for a database and refresh its cached schema
+   */
+  static async updateDatabaseSchemas(req: Request, res: Response) {
+    try {
+      const userId = (req as any).user?.userId;
+      const { databaseId } = req.params;
+      const { includeSchemas, excludeSchemas } = req.body;
+
+      if (!userId) {
+        return res.status(401).json({ success: false, error: 'User not authenticated' });
+      }
+
+      if (!databaseId) {
+        return res.status(400).json({ success: false, error: 'Database ID is required' });
+      }
+
+      const validation = ValidationUtils.validateSchemaFilterInput({ includeSchemas, excludeSchemas });
+      if (!validation.isValid) {
+        return res.status(400).json({ success: false, error: 'Validation failed', details: validation.errors });
+      }
+
+      const userDatabase = await prisma.user_databases.findFirst({
+        where: {
+          id: BigInt(databaseId),
+          user_id: BigInt(userId),
+          is_active: true
+        }
+      });
+
+      if (!userDatabase) {
+        return res.status(404).json({ success: false, error: 'Database not found' });
+      }
+
+      // Omitted lists keep their current value
+      const schemas = {
+        include: includeSchemas ?? userDatabase.included_schemas,
+        exclude: excludeSchemas ?? userDatabase.excluded_schemas
+      };
+      const schema = await DatabaseConnectionService.getSchema(SchemaDriftService.targetFor({
+        ...userDatabase,
+        included_schemas: schemas.include,
+        excluded_schemas: schemas.exclude
+      }));
+
+      await SchemaDriftService.recordSchema(userDatabase, schema, {
+        included_schemas: schemas.include,
+        excluded_schemas: schemas.exclude
+      });
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          includeSchemas: schemas.include,
+          excludeSchemas: schemas.exclude,
+          schema
+        }
+      });
+
+    } catch (error) {
+      console.error('Update database schemas error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update database schemas',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Turn column profiling of a database on or off and refresh its cached schema
+   */
+  static async updateDatabaseProfiling(req: Request, res: Response) {
+    try {
+      const userId = (req as any).user?.userId;
+      const { databaseId } = req.params;
+      const { enabled } = req.body;
+
+      if (!userId) {
+        return res.status(401).json({ success: false, error: 'User not authenticated' });
+      }
+
+      if (!databaseId) {
+        return res.status(400).json({ success: false, error: 'Database ID is required' });
+      }
+
+      if (typeof enabled !== 'boolean') {
+        return res.status(400).json({ success: false, error: 'enabled must be a boolean' });
+      }
+
+      const userDatabase = await prisma.user_databases.findFirst({
+        where: {
+          id: BigInt(databaseId),
+          user_id: BigInt(userId),
+          is_active: true
+        }
+      });
+
+      if (!userDatabase) {
+        return res.status(404).json({ success: false, error: 'Database not found' });
+      }
+
+      // Re-introspect so profiles are collected now, or dropped from the cache when turned off
+      const schema = await DatabaseConnectionService.getSchema(SchemaDriftService.targetFor({
+        ...userDatabase,
+        profiling_enabled: enabled
+      }));
+
+      await SchemaDriftService.recordSchema(userDatabase, schema, { profiling_enabled: enabled });
+
+      return res.status(200).json({
+        success: true,
+        data: {
+          profileColumns: enabled,
+          schema
+        }
+      });
+
+    } catch (error) {
+      console.error('Update database profiling error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to update database profiling',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Table and column visibility rules of a database
+   */
+  static async getDatabaseVisibility(req: Request, res: Response) {
+    try {
+      const userId = (req as any).user?.userId;
+      const { databaseId } = req.params;
+
+      if (!userId) {
+        return res.status(401).json({ success: false, error: 'User not authenticated' });
+      }
+
+      if (!databaseId) {
+        return res.status(400).json({ success: false, error: 'Database ID is required' });
+      }
+
+      const userDatabase = await prisma.user_databases.findFirst({
+        where: {
+          id: BigInt(databaseId),
+          user_id: BigInt(userId),
+          is_active: true
+        }
+      });
+
+      if (!userDatabase) {
+        return res.status(404).json({ success: false, error: 'Database not found' });
+      }
+
+      return res.status(200).json({
+        success: true,
+        data: SchemaVisibility.fromUserDatabase(userDatabase)
+      });
+
+    } catch (error) {
+      console.error('Get database visibility error:', error);
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to get database visibility',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  }
+
+  /**
+   * Set the tables shown to the model and the masked columns of a database
+   */
+  static async updateDatabaseVisibility(req: Request, res: Response) {
+    try {
+      const userId = (req as any).user?.userId;
+      const { databaseId } = req.params;
+      const { includeTables, excludeTables, maskedColumns } = req.body;
+
+      if (!userId) {
+        return res.status(401).json({ success: false, error: 'User not authenticated' });
+      }
+
+      if (!databaseId) {
+        return res.status(400).json({ success: false, error: 'Database ID is required' });
+      }
+
+      const validation = ValidationUtils.validateVisibilityRulesInput({ includeTables, excludeTables, maskedColumns });
+      if (!validation.isValid) {
+        return res.status(400).json({ success: false, error: 'Validation failed', details: validation.errors });
+      }
+
+      const userDatabase = await prisma.user_databases.findFirst({
+        where: {
+          id: BigInt(databaseId),
+          user_id: BigInt(userId),
+          is_active: true
+        }
+      });
+
+      if (!userDatabase) {
+        return res.status(404).json({ success: false, error: 'Database not found' });
+      }
+
+      // Omitted lists keep their current value
+      const current = SchemaVisibility.fromUserDatabase(userDatabase);
+      const visibility = {
+        includeTables: includeTables ?? current.includeTables,
+        excludeTables: excludeTables ?? current.excludeTables,
+        maskedColumns: maskedColumns ?? current.maskedColumns
+      };
 
-      // Update cache
       await prisma.user_databases.update({
-        where: { id: BigInt(databaseId) },
+        where: { id: userDatabase.id },
         data: {
-          schema_cache: schema as any,
-          last_schema_update: new Date()
+          included_tables: visibility.includeTables,
+          excluded_tables: visibility.excludeTables,
+          masked_columns: visibility.maskedColumns
         }
       });
 
+      // Cached results and stored analyses may hold data that is now hidden
+      const { CacheService } = await import('../utils/cacheService');
+      await CacheService.invalidateDatabaseCache(userId, databaseId);
+      await SemanticCacheService.invalidateDatabase(userId, databaseId);
+      await VectorStoreService.clearVectorStore(userId, databaseId);
+
       return res.status(200).json({
         success: true,
-        data: schema
+        data: visibility
       });
 
     } catch (error) {
-      console.error('Get schema error:', error);
+      console.error('Update database visibility error:', error);
       return res.status(500).json({
         success: false,
-        error: 'Failed to get schema',
+        error: 'Failed to update database visibility',
         message: error instanceof Error ? error.message : 'Unknown error'
       });
     }
@@ -329,6 +702,7 @@ export class RAGController {
         where: { id: BigInt(databaseId) },
         data: { is_active: false }
       });
+      await DatabaseConnectionService.releaseDatabase(databaseId);
 
       return res.status(200).json({
         success: true,
@@ -479,7 +853,7 @@ export class RAGController {
       if (!userId) {
         return res.status(401).json({ success: false, error: 'User not authenticated' });
       }
-      userMemoryMap.delete(userId);
+      await clearUserMemoryHelper(userId);
       return res.status(200).json({ success: true, message: 'Memory cleared' });
     } catch (error) {
       return res.status(500).json({ success: false, error: 'Failed to clear memory' });
@@ -496,9 +870,7 @@ export class RAGController {
         return res.status(401).json({ success: false, error: 'User not authenticated' });
       }
 
-      const memory = getUserMemoryHelper(userId);
-      const memoryVariables = await memory.loadMemoryVariables({});
-      const chatHistory = memoryVariables.chat_history;
+      const chatHistory = await getUserMemoryHelper(userId).getMessages();
 
       return res.status(200).json({
         success: true,
@@ -528,13 +900,14 @@ export class RAGController {
       }
 
       const { CacheService } = await import('../utils/cacheService');
-      const stats = CacheService.getCacheStats(userId);
-      const size = CacheService.getCacheSize();
+      const stats = await CacheService.getCacheStats(userId);
+      const size = await CacheService.getCacheSize();
+      const semantic = await SemanticCacheService.getStats(userId);
 
       return res.status(200).json({
         success: true,
         data: {
-          stats,
+          stats: { ...stats, semantic },
           size,
           userId
         }
@@ -561,7 +934,8 @@ export class RAGController {
       }
 
       const { CacheService } = await import('../utils/cacheService');
-      CacheService.clearUserCache(userId);
+      await CacheService.clearUserCache(userId);
+      await SemanticCacheService.clearUser(userId);
 
       return res.status(200).json({
         success: true,
@@ -596,7 +970,8 @@ export class RAGController {
       }
 
       const { CacheService } = await import('../utils/cacheService');
-      CacheService.invalidateDatabaseCache(userId, databaseId);
+      await CacheService.invalidateDatabaseCache(userId, databaseId);
+      await SemanticCacheService.invalidateDatabase(userId, databaseId);
 
       return res.status(200).json({
         success: true,
@@ -615,7 +990,7 @@ export class RAGController {
   }
 
   /**
-   * Clear all cache (admin only)
+   * Clear the caches of every user (admin only, enforced by the route)
    */
   static async clearAllCache(req: Request, res: Response) {
     try {
@@ -624,14 +999,9 @@ export class RAGController {
         return res.status(401).json({ success: false, error: 'User not authenticated' });
       }
 
-      // TODO: Add admin check here if needed
-      // const user = await prisma.users.findUnique({ where: { id: BigInt(userId) } });
-      // if (!user?.is_admin) {
-      //   return res.status(403).json({ success: false, error: 'Admin access required' });
-      // }
-
       const { CacheService } = await import('../utils/cacheService');
-      CacheService.clearAllCache();
+      await CacheService.clearAllCache();
+      await SemanticCacheService.clearAll();
 
       return res.status(200).json({
         success: true,
@@ -660,7 +1030,8 @@ export class RAGController {
       }
 
       const { CacheService } = await import('../utils/cacheService');
-      CacheService.cleanupExpiredCache();
+      await CacheService.cleanupExpiredCache();
+      await SemanticCacheService.cleanupExpired();
 
       return res.status(200).json({
         success: true,
@@ -697,6 +1068,20 @@ export class RAGController {
         });
       }
 
+      // Check token quota of the user's plan
+      const tokenQuota = await TokenUsageService.checkTokenQuota(userId);
+      if (!tokenQuota.allowed) {
+        return res.status(403).json({
+          success: false,
+          error: 'Token limit exceeded',
+          tokenUsage: {
+            used: tokenQuota.used,
+            limit: tokenQuota.limit,
+            remaining: tokenQuota.remaining
+          }
+        });
+      }
+
       const { recommendation, question, databaseId, context } = req.body;
       if (!recommendation) {
         return res.status(400).json({ success: false, error: 'Recommendation is required' });
@@ -714,7 +1099,7 @@ export class RAGController {
 
       // Call the LLM directly (not using the business analysis template)
       const { openAIAnalysisLLM } = await import('../configs/langchain');
-      const aiResult = await openAIAnalysisLLM.call({ prompt });
+      const aiResult = await openAIAnalysisLLM.call({ prompt, userId });
       let insights = aiResult.text;
 
       // If the response is JSON or contains a JSON string, extract only the explanation
@@ -736,6 +1121,8 @@ export class RAGController {
         // Not JSON, keep as is
       }
 
+      const tokenBalance = await TokenUsageService.checkTokenQuota(userId);
+
       return res.status(200).json({
         success: true,
         message: 'Recommendation expanded successfully',
@@ -743,10 +1130,18 @@ export class RAGController {
         rateLimit: {
           remaining: rateLimit.remaining,
           resetTime: rateLimit.resetTime
+        },
+        tokenUsage: {
+          used: tokenBalance.used,
+          limit: tokenBalance.limit,
+          remaining: tokenBalance.remaining
         }
       });
     } catch (error) {
       console.error('Expand recommendation error:', error);
+      if (error instanceof TokenQuotaExceededError) {
+        return res.status(403).json({ success: false, error: 'Token limit exceeded', message: error.message });
+      }
       return res.status(500).json({
         success: false,
         error: 'Failed to expand recommendation',
@@ -775,6 +1170,20 @@ export class RAGController {
         });
       }
 
+      // Check token quota of the user's plan
+      const tokenQuota = await TokenUsageService.checkTokenQuota(userId);
+      if (!tokenQuota.allowed) {
+        return res.status(403).json({
+          success: false,
+          error: 'Token limit exceeded',
+          tokenUsage: {
+            used: tokenQuota.used,
+            limit: tokenQuota.limit,
+            remaining: tokenQuota.remaining
+          }
+        });
+      }
+
       const { databaseId, generateImage, questionsAndAnswers } = req.body;
       
       // Validate questionsAndAnswers structure
@@ -798,14 +1207,12 @@ export class RAGController {
       // Get database info and schema (existing code)
       const databaseInfo = await RAGService.getUserDatabase(userId, databaseId);
       const schema = await RAGService.getSchema(databaseInfo);
-      const schemaDescription = RAGService.formatSchemaForPrompt(schema);
+      const queryLimits = await DatabaseConnectionService.getQueryLimits(userId);
+      const schemaDescription = RAGService.formatSchemaForPrompt(schema, databaseInfo.visibility);
 
       // Generate SQL query with context from Q&A
-      const { openAIQueryLLM, openAIAnalysisLLM } = await import('../configs/langchain');
-      let dbInstructions = '';
-      if (schema.databaseType === 'mysql') {
-        dbInstructions = '\n\nIMPORTANT: Use backticks (`) for table and column names, not double quotes.';
-      }
+      const connector = ConnectorRegistry.get(schema.databaseType);
+      const dbInstructions = `\n\nIMPORTANT:${formatDialectRules(connector.promptHints)}`;
 
       const sqlPrompt = `You are a SQL expert. Generate a SQL query to extract ALL data needed to create a detailed marketing plan for this business. Consider the following context from previous analysis:
 
@@ -814,91 +1221,37 @@ ${contextFromQA}
 Use this context to understand what specific data aspects are most relevant for the marketing plan. Database Schema:
 ${schemaDescription}${dbInstructions}`;
 
-      // Continue with existing SQL generation and execution logic...
-      const sqlResult = await openAIQueryLLM.call({ prompt: sqlPrompt });
-      let sqlQuery = sqlResult.text.trim().replace(/```sql|```/gi, '').trim();
-      // Only allow SELECT queries
-      const sqlMatch = sqlQuery.match(/SELECT[\s\S]*/i);
-      if (sqlMatch) {
-        sqlQuery = sqlMatch[0].trim();
-      } else {
-        throw new Error('Only SELECT queries are allowed for marketing plan generation.');
-      }
-      if (schema.databaseType === 'mysql') {
-        sqlQuery = sqlQuery.replace(/"/g, '`');
-      }
-      // Remove or comment out all console.log statements related to SQL and data in generateMarketingPlan
-      let queryResult: any[] = [];
-      let mainQueryResult;
-      let sqlError = null;
+      // Generate and execute the query; relax it when it finds nothing, fall back to a product listing when it fails
+      const fallbackQuery = schema.tables.some(t => t.name === 'products')
+        ? 'SELECT name, description, price FROM products LIMIT 10;'
+        : schema.tables.some(t => t.name === 'services')
+          ? 'SELECT name, description, sales_price as price FROM services LIMIT 10;'
+          : 'SELECT * FROM information_schema.tables LIMIT 10;';
+      let execution;
       try {
-        mainQueryResult = await DatabaseConnectionService.executeQuery(databaseInfo.connectionString, databaseInfo.type, sqlQuery);
-        if (mainQueryResult.length === 0) {
-          // Remove status filter if present
-          let fallbackQuery = sqlQuery.replace(/WHERE\s+o\.status\s*=\s*['\"]\w+['\"]/i, '');
-          if (fallbackQuery === sqlQuery) {
-            fallbackQuery = sqlQuery.replace(/WHERE\s+o\.status\s*=\s*['\"]\w+['\"]/i, "WHERE o.status IN ('delivered','shipped','processing')");
-          }
-          if (fallbackQuery === sqlQuery) {
-            fallbackQuery = sqlQuery.replace(/WHERE[\s\S]*?(GROUP BY|ORDER BY|LIMIT)/i, '$1');
-          }
-          let fallbackResult = [];
-          try {
-            fallbackResult = await DatabaseConnectionService.executeQuery(databaseInfo.connectionString, databaseInfo.type, fallbackQuery);
-          } catch (fallbackError) {
-            console.log('Fallback query failed:', fallbackError);
-          }
-          queryResult = fallbackResult.length > 0 ? fallbackResult : mainQueryResult;
-        } else {
-          queryResult = mainQueryResult;
-        }
+        execution = await QueryEngine.run({
+          userId,
+          target: databaseInfo,
+          schema,
+          prompt: sqlPrompt,
+          limits: queryLimits,
+          retryOnEmpty: true,
+          fallbackQueries: [fallbackQuery]
+        });
       } catch (error) {
-        sqlError = error;
-        // If SQL execution fails, re-prompt LLM with explicit alias/column instructions
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        const fixPrompt = `${sqlPrompt}\n\nThe previous query failed with the following error for ${schema.databaseType}:\n${errorMsg}\nYou used an alias or column that does not exist or is not defined at the point of use. Double-check that all table aliases are defined before use, all columns referenced in JOINs exist in the correct tables, and fix any alias/column issues. Use only MySQL 8.0 compatible syntax. Do not use multiple CTEs. Do not use double quotes for table or column names. Use IN ('delivered','shipped','processing') for order status if needed.`;
-        try {
-          const fixResult = await openAIQueryLLM.call({ prompt: fixPrompt });
-          sqlQuery = fixResult.text.trim().replace(/```sql|```/gi, '').trim();
-          const sqlMatch2 = sqlQuery.match(/SELECT[\s\S]*/i);
-          if (sqlMatch2) {
-            sqlQuery = sqlMatch2[0].trim();
-          } else {
-            throw new Error('Only SELECT queries are allowed for marketing plan generation.');
-          }
-          if (schema.databaseType === 'mysql') {
-            sqlQuery = sqlQuery.replace(/"/g, '`');
-          }
-          queryResult = await DatabaseConnectionService.executeQuery(databaseInfo.connectionString, databaseInfo.type, sqlQuery);
-        } catch (secondError) {
-          // If the LLM fails twice, fall back to a simple query
-          let fallbackQuery = '';
-          if (schema.tables.some(t => t.name === 'products')) {
-            fallbackQuery = 'SELECT name, description, price FROM products LIMIT 10;';
-          } else if (schema.tables.some(t => t.name === 'services')) {
-            fallbackQuery = 'SELECT name, description, sales_price as price FROM services LIMIT 10;';
-          } else {
-            fallbackQuery = 'SELECT * FROM information_schema.tables LIMIT 10;';
-          }
-          try {
-            queryResult = await DatabaseConnectionService.executeQuery(databaseInfo.connectionString, databaseInfo.type, fallbackQuery);
-          } catch (finalError) {
-            // If even the fallback fails, return a clear error
-            return res.status(500).json({
-              success: false,
-              error: 'Failed to generate marketing plan',
-              message: finalError instanceof Error ? finalError.message : 'Unknown error'
-            });
-          }
-        }
-      }
-      if (!Array.isArray(queryResult)) {
-        if (queryResult === undefined || queryResult === null) {
-          queryResult = [];
-        } else {
-          queryResult = [queryResult];
+        if (error instanceof QueryEngineError) {
+          // Even the fallback failed
+          return res.status(500).json({
+            success: false,
+            error: 'Failed to generate marketing plan',
+            message: error.message,
+            queryAttempts: QueryEngine.summarizeAttempts(error.result.attempts)
+          });
         }
+        throw error;
       }
+      const queryResult = execution.rows;
+      const sqlQuery = execution.query;
       // Remove or comment out all console.log statements related to SQL and data in generateMarketingPlan
       if (queryResult.length === 0) {
         return res.status(200).json({
@@ -927,7 +1280,7 @@ ${schemaDescription}${dbInstructions}`;
       // Use GPT-4o for enhanced marketing plan generation
       const { OpenAILLM } = await import('../configs/langchain');
       const gpt4oLLM = new OpenAILLM('gpt-4o');
-      const planResult = await gpt4oLLM.call({ prompt: detailedPlanPrompt });
+      const planResult = await gpt4oLLM.call({ prompt: detailedPlanPrompt, userId });
       const plan = planResult.text;
 
       // 6. Generate DALL-E 3 image only if generateImage is true (default: true)
@@ -955,19 +1308,29 @@ ${schemaDescription}${dbInstructions}`;
       // After generating the plan and before returning the response
       // Extract tables used from the SQL query
       const tablesUsed = RAGService.extractTableNamesFromSQL(sqlQuery);
+      const tokenBalance = await TokenUsageService.checkTokenQuota(userId);
 
       return res.status(200).json({
         success: true,
         plan,
         imageUrl,
         tablesUsed,
+        queryAttempts: QueryEngine.summarizeAttempts(execution.attempts),
         rateLimit: {
           remaining: rateLimit.remaining,
           resetTime: rateLimit.resetTime
+        },
+        tokenUsage: {
+          used: tokenBalance.used,
+          limit: tokenBalance.limit,
+          remaining: tokenBalance.remaining
         }
       });
     } catch (error) {
       console.error('Marketing plan generation error:', error);
+      if (error instanceof TokenQuotaExceededError) {
+        return res.status(403).json({ success: false, error: 'Token limit exceeded', message: error.message });
+      }
       return res.status(500).json({
         success: false,
         error: 'Failed to generate marketing plan',
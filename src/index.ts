@@ -7,6 +7,14 @@ import plansRoutes from './routes/plans';
 import paymobWebhookRoutes from './routes/paymobWebook';
 import ragRoutes from './routes/rag';
 import dashboardRoutes from './routes/dashboard';
+import adminRoutes from './routes/admin';
+import { SubscriptionService } from './utils/subscriptionService';
+import { TokenService } from './utils/tokenService';
+import { ConnectionPoolManager } from './utils/connectionPool';
+import { SchemaDriftService } from './utils/schemaDriftService';
+import { SemanticCacheService } from './utils/semanticCache';
+import { CacheStoreProvider } from './utils/cacheStore';
+import { Mailer } from './utils/mailer';
 
 // Initialize LangChain configuration
 import './configs/langchain';
@@ -14,6 +22,9 @@ import './configs/langchain';
 // Load environment variables
 dotenv.config();
 
+// Fail fast when no mail transport is usable (production needs a real provider)
+Mailer.ensureConfigured();
+
 // Initialize Express app
 const app = express();
 const port = Number(process.env.PORT) || 3000;
@@ -35,6 +46,7 @@ app.use('/api/plan', plansRoutes);
 app.use('/api/paymob', paymobWebhookRoutes);
 app.use('/api/rag', ragRoutes);
 app.use('/api/dashboard', dashboardRoutes);
+app.use('/api/admin', adminRoutes);
 
 
 // Health check endpoint
@@ -64,17 +76,36 @@ app.use('*', (req, res) => {
 app.listen(port, '0.0.0.0', () => {
   console.log(`🚀 Server running on http://0.0.0.0:${port}`);
   console.log(`📊 Health check: http://0.0.0.0:${port}/api/health`);
+  SubscriptionService.startExpiryJob();
+  TokenService.startCleanupJob();
+  ConnectionPoolManager.startMaintenanceJob();
+  SchemaDriftService.startDriftJob();
+  SemanticCacheService.startCleanupJob();
 });
 
 // Graceful shutdown
 process.on('SIGINT', async () => {
   console.log('🛑 Shutting down gracefully...');
+  SubscriptionService.stopExpiryJob();
+  TokenService.stopCleanupJob();
+  ConnectionPoolManager.stopMaintenanceJob();
+  SchemaDriftService.stopDriftJob();
+  SemanticCacheService.stopCleanupJob();
+  await ConnectionPoolManager.drainAll();
+  await CacheStoreProvider.close();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   console.log('🛑 Shutting down gracefully...');
+  SubscriptionService.stopExpiryJob();
+  TokenService.stopCleanupJob();
+  ConnectionPoolManager.stopMaintenanceJob();
+  SchemaDriftService.stopDriftJob();
+  SemanticCacheService.stopCleanupJob();
+  await ConnectionPoolManager.drainAll();
+  await CacheStoreProvider.close();
   await prisma.$disconnect();
   process.exit(0);
 });
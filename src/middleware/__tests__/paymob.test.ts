@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+import callback from '../../utils/__tests__/fixtures/syntheticPaymobCallback.json';
+import { verifyPaymobHmac } from '../paymob';
+
+jest.mock('../../configs/paymob', () => ({
+  paymobConfig: { hmacSecret: 'paymob-test-hmac-secret' }
+}));
+
+const mockRequest = (query: Record<string, string>, body: any): Request =>
+  ({ query, body } as unknown as Request);
+
+const mockResponse = () => {
+  const res = { status: jest.fn(), send: jest.fn() };
+  res.status.mockReturnValue(res);
+  res.send.mockReturnValue(res);
+  return res;
+};
+
+const payload = () => JSON.parse(JSON.stringify(callback.payload));
+
+describe('verifyPaymobHmac', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('passes a signed callback on to the handler', () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    verifyPaymobHmac(mockRequest({ hmac: callback.hmac }, payload()), res as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(res.status).not.toHaveBeenCalled();
+  });
+
+  it('reads the HMAC from the body when the query has none', () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    verifyPaymobHmac(mockRequest({}, { ...payload(), hmac: callback.hmac }), res as unknown as Response, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('responds 401 when the HMAC is missing', () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    verifyPaymobHmac(mockRequest({}, payload()), res as unknown as Response, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.send).toHaveBeenCalledWith('Missing HMAC');
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('responds 401 when the callback was tampered with', () => {
+    const res = mockResponse();
+    const next = jest.fn();
+    const tampered = payload();
+    tampered.obj.amount_cents = 100;
+
+    verifyPaymobHmac(mockRequest({ hmac: callback.hmac }, tampered), res as unknown as Response, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.send).toHaveBeenCalledWith('Invalid HMAC');
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('responds 401 when the callback has no transaction', () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    verifyPaymobHmac(mockRequest({ hmac: callback.hmac }, { type: 'TRANSACTION' }), res as unknown as Response, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { AuthUtils, JWTPayload } from '../utils/auth';
+import { TokenService } from '../utils/tokenService';
+import { prisma } from '../index';
 import { UserRole } from '@prisma/client';
 
 // Extend Express Request interface to include user
@@ -14,7 +16,8 @@ declare global {
 /**
  * Middleware to authenticate JWT tokens
  */
-export const authenticateToken = (req: Request, res: Response, next: NextFunction) => {
+export const authenticateToken = async (req: Request, res: Response, next: NextFunction) => {
+  let decoded: JWTPayload;
   try {
     const token = AuthUtils.extractTokenFromHeader(req.headers.authorization);
     if (!token) {
@@ -24,15 +27,31 @@ export const authenticateToken = (req: Request, res: Response, next: NextFunctio
       });
     }
 
-    const decoded = AuthUtils.verifyToken(token);
-    req.user = decoded;
-    next();
+    decoded = AuthUtils.verifyToken(token);
   } catch (error) {
     return res.status(403).json({
       error: 'Invalid token',
       message: 'Token is invalid or expired'
     });
   }
+
+  try {
+    if (await TokenService.isRevoked(decoded)) {
+      return res.status(403).json({
+        error: 'Invalid token',
+        message: 'Token has been revoked'
+      });
+    }
+  } catch (error) {
+    console.error('Token revocation check error:', error);
+    return res.status(500).json({
+      error: 'Authentication failed',
+      message: 'An error occurred while verifying token'
+    });
+  }
+
+  req.user = decoded;
+  next();
 };
 
 /**
@@ -63,16 +82,57 @@ export const authorizeRoles = (...roles: UserRole[]) => {
  */
 export const requireAdmin = authorizeRoles(UserRole.admin);
 
+/**
+ * Middleware to check if user is support staff (admins included)
+ */
+export const requireSupport = authorizeRoles(UserRole.admin, UserRole.support);
+
+/**
+ * Middleware to require a verified email address
+ */
+export const requireVerifiedEmail = async (req: Request, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return res.status(401).json({
+      error: 'Access denied',
+      message: 'Authentication required'
+    });
+  }
+
+  try {
+    const user = await prisma.users.findUnique({
+      where: { id: BigInt(req.user.userId) },
+      select: { email_verified_at: true }
+    });
+
+    if (!user?.email_verified_at) {
+      return res.status(403).json({
+        error: 'Email not verified',
+        message: 'Please verify your email address first'
+      });
+    }
+
+    next();
+  } catch (error) {
+    console.error('Email verification check error:', error);
+    return res.status(500).json({
+      error: 'Verification check failed',
+      message: 'An error occurred while checking email verification'
+    });
+  }
+};
+
 /**
  * Optional authentication middleware (doesn't fail if no token)
  */
-export const optionalAuth = (req: Request, res: Response, next: NextFunction) => {
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const token = AuthUtils.extractTokenFromHeader(req.headers.authorization);
 
     if (token) {
       const decoded = AuthUtils.verifyToken(token);
-      req.user = decoded;
+      if (!(await TokenService.isRevoked(decoded))) {
+        req.user = decoded;
+      }
     }
 
     next();
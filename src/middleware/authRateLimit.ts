@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+import { LoginProtectionService, AuthAction } from '../utils/loginProtection';
+
+/**
+ * Send the generic response for throttled auth requests
+ */
+export const sendTooManyAttempts = (res: Response, retryAfterSeconds?: number) => {
+  if (retryAfterSeconds) {
+    res.set('Retry-After', String(retryAfterSeconds));
+  }
+  return res.status(429).json({
+    error: 'Too many attempts',
+    message: 'Too many attempts. Please try again later.'
+  });
+};
+
+/**
+ * Middleware to limit attempts of an auth action per IP address
+ */
+export const limitAuthAttempts = (action: AuthAction) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const result = await LoginProtectionService.consumeIp(action, req.ip || 'unknown');
+
+    if (!result.allowed) {
+      return sendTooManyAttempts(res, result.retryAfterSeconds);
+    }
+
+    next();
+  };
+};
@@ -0,0 +1,21 @@
+import { Request, Response, NextFunction } from 'express';
+import { verifyTransactionHmac } from '../utils/paymobHmac';
+
+/**
+ * Middleware to reject Paymob callbacks that are unsigned or were tampered with
+ */
+export const verifyPaymobHmac = (req: Request, res: Response, next: NextFunction) => {
+  const hmac = (req.query.hmac as string | undefined) || req.body?.hmac;
+
+  if (!hmac) {
+    console.error('❌ Paymob webhook rejected: missing HMAC');
+    return res.status(401).send('Missing HMAC');
+  }
+
+  if (!verifyTransactionHmac(req.body?.obj, hmac)) {
+    console.error('❌ Paymob webhook rejected: invalid HMAC');
+    return res.status(401).send('Invalid HMAC');
+  }
+
+  next();
+};
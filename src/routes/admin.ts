@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { AdminController } from '../controllers/admin.controller';
+import { authenticateToken, requireAdmin, requireSupport } from '../middleware/auth';
+
+const router = Router();
+
+// Every admin console route needs staff access; write operations on accounts and plans are admin only
+router.use(authenticateToken, requireSupport);
+
+// User lookup (support)
+router.get('/users', AdminController.listUsers);
+router.get('/users/:userId', AdminController.getUser);
+router.get('/users/:userId/plans', AdminController.getUserPlans);
+router.get('/users/:userId/databases', AdminController.getUserDatabases);
+router.get('/users/:userId/usage', AdminController.getUserUsage);
+
+// Rate limits (support)
+router.post('/users/:userId/rate-limit/reset', AdminController.resetRateLimit);
+
+// Subscriptions (admin)
+router.post('/users/:userId/plans', requireAdmin, AdminController.grantPlan);
+router.delete('/users/:userId/plans/:planId', requireAdmin, AdminController.revokePlan);
+
+// Account status (admin)
+router.post('/users/:userId/deactivate', requireAdmin, AdminController.deactivateUser);
+router.post('/users/:userId/reactivate', requireAdmin, AdminController.reactivateUser);
+
+export default router;
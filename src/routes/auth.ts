@@ -1,5 +1,6 @@
 import express from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireSupport } from '../middleware/auth';
+import { limitAuthAttempts } from '../middleware/authRateLimit';
 import * as AuthController from '../controllers/auth.controller';
 
 const router = express.Router();
@@ -8,13 +9,13 @@ const router = express.Router();
  * POST /api/auth/register
  * Register a new user
  */
-router.post('/register', AuthController.register);
+router.post('/register', limitAuthAttempts('register'), AuthController.register);
 
 /**
  * POST /api/auth/login
  * Login user
  */
-router.post('/login', AuthController.login);
+router.post('/login', limitAuthAttempts('login'), AuthController.login);
 
 /**
  * GET /api/auth/me
@@ -22,17 +23,77 @@ router.post('/login', AuthController.login);
  */
 router.get('/me', authenticateToken, AuthController.getProfile);
 
+/**
+ * PATCH /api/auth/me
+ * Update first name, last name and phone number
+ */
+router.patch('/me', authenticateToken, AuthController.updateProfile);
+
+/**
+ * DELETE /api/auth/me
+ * Permanently delete the account and all of its data
+ */
+router.delete('/me', authenticateToken, AuthController.deleteAccount);
+
+/**
+ * POST /api/auth/change-password
+ * Change password (other sessions are revoked)
+ */
+router.post('/change-password', authenticateToken, AuthController.changePassword);
+
 /**
  * POST /api/auth/logout
- * Logout user (client-side token removal)
+ * Logout user (revokes the current session)
  */
 router.post('/logout', authenticateToken, AuthController.logout);
 
+/**
+ * POST /api/auth/logout-all
+ * Logout user from all devices (revokes every session)
+ */
+router.post('/logout-all', authenticateToken, AuthController.logoutAll);
+
 /**
  * POST /api/auth/refresh
- * Refresh JWT token
+ * Exchange a refresh token for a new access/refresh token pair
+ */
+router.post('/refresh', AuthController.refreshToken);
+
+/**
+ * POST /api/auth/forgot-password
+ * Email a single-use password reset link
+ */
+router.post('/forgot-password', limitAuthAttempts('forgot_password'), AuthController.forgotPassword);
+
+/**
+ * POST /api/auth/reset-password
+ * Set a new password with a reset token
+ */
+router.post('/reset-password', limitAuthAttempts('reset_password'), AuthController.resetPassword);
+
+/**
+ * POST /api/auth/verify-email
+ * Verify the email address with a verification token
+ */
+router.post('/verify-email', limitAuthAttempts('verify_email'), AuthController.verifyEmail);
+
+/**
+ * POST /api/auth/resend-verification
+ * Send a new email verification link
+ */
+router.post('/resend-verification', authenticateToken, limitAuthAttempts('resend_verification'), AuthController.resendVerification);
+
+/**
+ * GET /api/auth/lockouts
+ * List recorded login lockouts (support staff)
+ */
+router.get('/lockouts', authenticateToken, requireSupport, AuthController.listLoginLockouts);
+
+/**
+ * POST /api/auth/lockouts/unlock
+ * Lift the login lockout of an email (support staff)
  */
-router.post('/refresh', authenticateToken, AuthController.refreshToken);
+router.post('/lockouts/unlock', authenticateToken, requireSupport, AuthController.unlockLogin);
 
 export default router;
 
@@ -1,8 +1,9 @@
 import { Router } from "express";
 import { handleWebhook } from "../controllers/paymobWebhookController";
+import { verifyPaymobHmac } from "../middleware/paymob";
 
 const router = Router();
 
-router.post("/webhook", handleWebhook);
+router.post("/webhook", verifyPaymobHmac, handleWebhook);
 
 export default router;
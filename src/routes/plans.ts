@@ -14,6 +14,18 @@ router.post('/addPlan', authenticateToken,requireAdmin, planController.addPlan);
 
 router.get('/listPlans', planController.listPlans);
 
+router.get('/listInactivePlans', authenticateToken, requireAdmin, planController.listInactivePlans);
+
+router.get('/featureMatrix', planController.getFeatureMatrix);
+
+router.patch('/updatePlan/:id', authenticateToken, requireAdmin, planController.updatePlan);
+
+router.patch('/archivePlan/:id', authenticateToken, requireAdmin, planController.archivePlan);
+
+router.get('/current', authenticateToken, planController.getCurrentPlan);
+
+router.get('/history', authenticateToken, planController.getPlanHistory);
+
 
 export default router;
 
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { RAGController } from '../controllers/rag.controller';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, requireAdmin, requireVerifiedEmail } from '../middleware/auth';
 
 const router = Router();
 
@@ -17,9 +17,15 @@ router.post('/marketing-plan', RAGController.generateMarketingPlan);
 router.post('/recommendation/explain', RAGController.expandRecommendation);
 
 // Database management endpoints
-router.post('/databases', RAGController.connectDatabase);
+router.post('/databases', requireVerifiedEmail, RAGController.connectDatabase);
 router.get('/databases', RAGController.getUserDatabases);
 router.get('/databases/:databaseId/schema', RAGController.getDatabaseSchema);
+router.post('/databases/:databaseId/schema/refresh', RAGController.refreshDatabaseSchema);
+router.get('/databases/:databaseId/schema/history', RAGController.getSchemaHistory);
+router.put('/databases/:databaseId/schemas', RAGController.updateDatabaseSchemas);
+router.get('/databases/:databaseId/visibility', RAGController.getDatabaseVisibility);
+router.put('/databases/:databaseId/visibility', RAGController.updateDatabaseVisibility);
+router.put('/databases/:databaseId/profiling', RAGController.updateDatabaseProfiling);
 router.delete('/databases/:databaseId', RAGController.removeDatabase);
 
 // Vector store endpoints
@@ -38,7 +44,7 @@ router.delete('/memory/clear', RAGController.clearUserMemory);
 router.get('/cache/stats', RAGController.getCacheStats);
 router.delete('/cache/user', RAGController.clearUserCache);
 router.delete('/cache/database/:databaseId', RAGController.clearDatabaseCache);
-router.delete('/cache/all', RAGController.clearAllCache);
+router.delete('/cache/all', requireAdmin, RAGController.clearAllCache);
 router.post('/cache/cleanup', RAGController.cleanupExpiredCache);
 
 export default router; 
\ No newline at end of file
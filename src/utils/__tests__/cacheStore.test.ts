@@ -0,0 +1,170 @@
+import Redis from 'ioredis';
+import { CacheStoreProvider, MemoryCacheStore, RedisCacheStore } from '../cacheStore';
+import { CacheService } from '../cacheService';
+import { FakeRedisServer } from './support/fakeRedisServer';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('cache store', () => {
+  const server = new FakeRedisServer();
+  let redisUrl: string;
+
+  beforeAll(async () => {
+    redisUrl = await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await CacheStoreProvider.close();
+    delete process.env.REDIS_URL;
+    delete process.env.REDIS_KEY_PREFIX;
+    server.flush();
+  });
+
+  describe('RedisCacheStore', () => {
+    let client: Redis;
+    let store: RedisCacheStore;
+
+    beforeEach(() => {
+      client = new Redis(redisUrl, { enableReadyCheck: false, maxRetriesPerRequest: 1 });
+      store = new RedisCacheStore(client, 'test:');
+    });
+
+    afterEach(async () => {
+      await store.close();
+    });
+
+    it('stores JSON values under the namespace', async () => {
+      await store.set('qr:1:2:abc', { rows: [{ id: 1 }], total: 1 }, 60_000);
+
+      expect(await store.get('qr:1:2:abc')).toEqual({ rows: [{ id: 1 }], total: 1 });
+      expect(await store.get('qr:1:2:missing')).toBeNull();
+      expect(await store.getMany(['qr:1:2:abc', 'qr:1:2:missing'])).toEqual([{ rows: [{ id: 1 }], total: 1 }, null]);
+      expect(server.rawKeys()).toEqual(['test:qr:1:2:abc']);
+    });
+
+    it('expires entries after their TTL', async () => {
+      await store.set('emb:short', [0.1, 0.2], 50);
+      await store.set('emb:long', [0.3], 60_000);
+      expect(await store.get('emb:short')).toEqual([0.1, 0.2]);
+
+      await sleep(80);
+
+      expect(await store.get('emb:short')).toBeNull();
+      expect(await store.keys('emb:')).toEqual(['emb:long']);
+    });
+
+    it('lists and deletes keys by prefix across SCAN pages', async () => {
+      for (let i = 0; i < 1200; i++) {
+        await store.set(`sql:1:${i % 2 === 0 ? 'a' : 'b'}:${i}`, i, 60_000);
+      }
+
+      const keys = await store.keys('sql:1:a:');
+      expect(keys).toHaveLength(600);
+      expect(await store.delete(keys)).toBe(600);
+      expect(await store.keys('sql:1:a:')).toEqual([]);
+      expect(await store.keys('sql:1:b:')).toHaveLength(600);
+    });
+
+    it('matches prefixes literally', async () => {
+      await store.set('qr:1:[a*]:x', 1, 60_000);
+      await store.set('qr:1:ab:x', 2, 60_000);
+
+      expect(await store.keys('qr:1:[a*]:')).toEqual(['qr:1:[a*]:x']);
+      expect(await store.keys('qr:1:a')).toEqual(['qr:1:ab:x']);
+    });
+
+    it('shares entries between stores on the same server', async () => {
+      const otherClient = new Redis(redisUrl, { enableReadyCheck: false, maxRetriesPerRequest: 1 });
+      const otherStore = new RedisCacheStore(otherClient, 'test:');
+
+      await store.set('qr:1:2:shared', 'answer', 60_000);
+      expect(await otherStore.get('qr:1:2:shared')).toBe('answer');
+
+      await otherStore.delete(['qr:1:2:shared']);
+      expect(await store.get('qr:1:2:shared')).toBeNull();
+      await otherStore.close();
+    });
+  });
+
+  describe('CacheStoreProvider', () => {
+    it('uses the Redis backend when REDIS_URL is set', async () => {
+      process.env.REDIS_URL = redisUrl;
+      process.env.REDIS_KEY_PREFIX = 'app:';
+
+      const store = CacheStoreProvider.get();
+      expect(store).toBeInstanceOf(RedisCacheStore);
+      expect(CacheStoreProvider.getRedisClient()).not.toBeNull();
+
+      await store.set('qr:1:2:abc', 1, 60_000);
+      expect(server.rawKeys()).toEqual(['app:qr:1:2:abc']);
+    });
+
+    it('falls back to memory without REDIS_URL', async () => {
+      const store = CacheStoreProvider.get();
+      expect(store).toBeInstanceOf(MemoryCacheStore);
+      expect(store.backend).toBe('memory');
+      expect(CacheStoreProvider.getRedisClient()).toBeNull();
+
+      await store.set('qr:1:2:abc', { id: 1 }, 50);
+      expect(await store.get('qr:1:2:abc')).toEqual({ id: 1 });
+      await sleep(80);
+      expect(await store.get('qr:1:2:abc')).toBeNull();
+      expect(server.rawKeys()).toEqual([]);
+    });
+  });
+
+  describe.each([
+    ['redis', true],
+    ['memory', false]
+  ])('CacheService on the %s backend', (backend, useRedis) => {
+    beforeEach(() => {
+      if (useRedis) process.env.REDIS_URL = redisUrl;
+    });
+
+    it('serves cached query results and SQL queries', async () => {
+      await CacheService.cacheQueryResult('1', '2', 'How many orders?', { insights: '42 orders' }, 'v1', 'SELECT 42');
+      await CacheService.cacheSQLQuery('1', '2', 'How many orders?', 'SELECT COUNT(*) FROM orders', 'v1', 'postgresql');
+
+      expect(await CacheService.getCachedQueryResult('1', '2', '  how many ORDERS? ', 'v1')).toEqual({
+        response: { insights: '42 orders' },
+        sqlQuery: 'SELECT 42'
+      });
+      expect(await CacheService.getCachedSQLQuery('1', '2', 'How many orders?', 'v1')).toBe('SELECT COUNT(*) FROM orders');
+      expect(await CacheService.getCachedQueryResult('1', '2', 'How many orders?', 'v2')).toBeNull();
+      expect((await CacheService.getCacheSize()).backend).toBe(backend);
+    });
+
+    it('invalidates the entries of one database only', async () => {
+      await CacheService.cacheQueryResult('1', '2', 'q', 'a', 'v1');
+      await CacheService.cacheQueryResult('1', '3', 'q', 'b', 'v1');
+      await CacheService.cacheEmbedding('q', [1, 0]);
+
+      await CacheService.invalidateDatabaseCache('1', '2');
+
+      expect(await CacheService.getCachedQueryResult('1', '2', 'q', 'v1')).toBeNull();
+      expect(await CacheService.getCachedQueryResult('1', '3', 'q', 'v1')).toEqual({ response: 'b' });
+      expect(await CacheService.getCachedEmbedding('q')).toEqual([1, 0]);
+
+      await CacheService.clearAllCache();
+      expect(await CacheService.getCacheSize()).toMatchObject({ queryResults: 0, sqlQueries: 0, embeddings: 0 });
+    });
+
+    it('counts hits in the stats', async () => {
+      await CacheService.cacheSQLQuery('1', '2', 'q', 'SELECT 1', 'v1', 'postgresql');
+      await CacheService.getCachedSQLQuery('1', '2', 'q', 'v1');
+
+      const stats = await CacheService.getCacheStats('1');
+      expect(stats.sqlQueries).toEqual({ total: 1, hits: 2 });
+      expect(stats.queryResults).toEqual({ total: 0, hits: 0 });
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { FakeRedisServer } from './support/fakeRedisServer';
+
+// Modules ragService imports that reach databases or the model
+jest.mock('../../index', () => ({ prisma: {} }));
+jest.mock('../../configs/langchain', () => ({}));
+jest.mock('../databaseConnection', () => ({}));
+jest.mock('../connectors', () => ({}));
+jest.mock('../schemaDriftService', () => ({}));
+jest.mock('../queryEngine', () => ({}));
+jest.mock('../semanticCache', () => ({}));
+
+type Instance = {
+  ragService: typeof import('../ragService');
+  CacheStoreProvider: typeof import('../cacheStore').CacheStoreProvider;
+};
+
+// A fresh copy of the modules, as loaded by another API instance
+const loadInstance = (): Instance => {
+  let instance!: Instance;
+  jest.isolateModules(() => {
+    instance = {
+      ragService: require('../ragService'),
+      CacheStoreProvider: require('../cacheStore').CacheStoreProvider
+    };
+  });
+  return instance;
+};
+
+describe('conversation memory on a shared store', () => {
+  const server = new FakeRedisServer();
+  let first: Instance;
+  let second: Instance;
+
+  beforeAll(async () => {
+    process.env.REDIS_URL = await server.start();
+  });
+
+  afterAll(async () => {
+    delete process.env.REDIS_URL;
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    first = loadInstance();
+    second = loadInstance();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await first.CacheStoreProvider.close();
+    await second.CacheStoreProvider.close();
+    server.flush();
+  });
+
+  it('continues a conversation on another instance', async () => {
+    await first.ragService.saveConversation('7', 'What was revenue in March?', 'Revenue in March was 1200.');
+    await second.ragService.saveConversation('7', 'And in April?', 'Revenue in April was 1500.');
+
+    const expected = [
+      'User: What was revenue in March?',
+      'Assistant: Revenue in March was 1200.',
+      'User: And in April?',
+      'Assistant: Revenue in April was 1500.'
+    ].join('\n');
+    expect(await first.ragService.loadConversationHistory('7')).toBe(expected);
+    expect(await second.ragService.loadConversationHistory('7')).toBe(expected);
+    expect(await first.ragService.loadConversationHistory('8')).toBe('');
+  });
+
+  it('clears the memory for every instance', async () => {
+    await first.ragService.saveConversation('7', 'What was revenue in March?', 'Revenue in March was 1200.');
+
+    await second.ragService.clearUserMemory('7');
+
+    expect(await first.ragService.loadConversationHistory('7')).toBe('');
+    expect(await first.ragService.getUserMemory('7').getMessages()).toEqual([]);
+  });
+});
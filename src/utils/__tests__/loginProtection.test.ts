@@ -0,0 +1,81 @@
+import { FakeRedisServer } from './support/fakeRedisServer';
+
+jest.mock('../../index', () => ({
+  prisma: {
+    users: { findFirst: jest.fn(async () => null) },
+    login_lockouts: { create: jest.fn(async () => ({})) }
+  }
+}));
+
+type Instance = {
+  LoginProtectionService: typeof import('../loginProtection').LoginProtectionService;
+  CacheStoreProvider: typeof import('../cacheStore').CacheStoreProvider;
+};
+
+// A fresh copy of the modules, as loaded by another API instance
+const loadInstance = (): Instance => {
+  let instance!: Instance;
+  jest.isolateModules(() => {
+    instance = {
+      LoginProtectionService: require('../loginProtection').LoginProtectionService,
+      CacheStoreProvider: require('../cacheStore').CacheStoreProvider
+    };
+  });
+  return instance;
+};
+
+describe('LoginProtectionService on a shared store', () => {
+  const server = new FakeRedisServer();
+  let first: Instance;
+  let second: Instance;
+
+  beforeAll(async () => {
+    process.env.REDIS_URL = await server.start();
+  });
+
+  afterAll(async () => {
+    delete process.env.REDIS_URL;
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    first = loadInstance();
+    second = loadInstance();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await first.CacheStoreProvider.close();
+    await second.CacheStoreProvider.close();
+    server.flush();
+  });
+
+  it('counts attempts made on either instance against the same limit', async () => {
+    // register allows 5 attempts per IP an hour
+    for (let i = 0; i < 3; i++) {
+      expect(await first.LoginProtectionService.consumeIp('register', '203.0.113.9')).toEqual({ allowed: true });
+    }
+    for (let i = 0; i < 2; i++) {
+      expect(await second.LoginProtectionService.consumeIp('register', '203.0.113.9')).toEqual({ allowed: true });
+    }
+
+    const result = await first.LoginProtectionService.consumeIp('register', '203.0.113.9');
+    expect(result.allowed).toBe(false);
+    expect(result.retryAfterSeconds).toBeGreaterThan(0);
+
+    // Counted on the server, not in the per-instance insurance limiters
+    expect(server.rawKeys()).toContain('register_ip:203.0.113.9');
+  });
+
+  it('locks an email on every instance once failures reach a lockout step', async () => {
+    for (let i = 0; i < 3; i++) await first.LoginProtectionService.recordFailedLogin('ada@example.com');
+    for (let i = 0; i < 2; i++) await second.LoginProtectionService.recordFailedLogin('Ada@example.com');
+
+    const lockout = await first.LoginProtectionService.checkLockout('ada@example.com');
+    expect(lockout.allowed).toBe(false);
+    expect(lockout.retryAfterSeconds).toBeGreaterThan(14 * 60);
+    expect((await second.LoginProtectionService.checkLockout('ada@example.com')).allowed).toBe(false);
+  });
+});
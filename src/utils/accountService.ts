@@ -0,0 +1,71 @@
+import { prisma } from '../index';
+import { TokenService } from './tokenService';
+import { CacheService } from './cacheService';
+import { VectorStoreService } from './vectorStore';
+import { RateLimiterService } from './rateLimiter';
+import { DatabaseConnectionService } from './databaseConnection';
+import { clearUserMemory } from './ragService';
+
+export class AccountService {
+  /**
+   * Permanently delete a user and everything stored for them (GDPR erasure)
+   */
+  static async deleteAccount(userId: string | bigint): Promise<void> {
+    const id = BigInt(userId);
+    const userKey = id.toString();
+
+    const user = await prisma.users.findUnique({ where: { id }, select: { email: true } });
+    if (!user) return;
+
+    const databases = await prisma.user_databases.findMany({
+      where: { user_id: id },
+      select: { id: true }
+    });
+
+    // Revocation entries have no foreign key, so they outlive the user and keep issued access tokens dead
+    await TokenService.revokeAllSessions(id);
+
+    await prisma.$transaction(async (tx) => {
+      const conversations = await tx.conversations.findMany({
+        where: { OR: [{ participant_1: id }, { participant_2: id }] },
+        select: { id: true }
+      });
+      const conversationIds = conversations.map(conversation => conversation.id);
+
+      await tx.message_attachment.deleteMany({
+        where: {
+          message: {
+            OR: [{ sender_id: id }, { conversation_id: { in: conversationIds } }]
+          }
+        }
+      });
+      await tx.messages.deleteMany({
+        where: { OR: [{ sender_id: id }, { conversation_id: { in: conversationIds } }] }
+      });
+      await tx.conversations.deleteMany({ where: { id: { in: conversationIds } } });
+      await tx.notifications.deleteMany({ where: { user_id: id } });
+
+      await tx.payment_transactions.deleteMany({ where: { purchase_intent: { user_id: id } } });
+      await tx.purchase_intents.deleteMany({ where: { user_id: id } });
+      await tx.user_plans.deleteMany({ where: { user_id: id } });
+      await tx.user_databases.deleteMany({ where: { user_id: id } });
+      await tx.login_lockouts.deleteMany({ where: { email: user.email } });
+
+      // refresh_tokens and user_tokens are removed by ON DELETE CASCADE
+      await tx.users.delete({ where: { id } });
+    });
+
+    // Cached state keyed by the user
+    for (const database of databases) {
+      const databaseId = database.id.toString();
+      await DatabaseConnectionService.releaseDatabase(databaseId);
+      await VectorStoreService.clearVectorStore(userKey, databaseId);
+      await CacheService.invalidateDatabaseCache(userKey, databaseId);
+    }
+    await CacheService.clearUserCache(userKey);
+    await clearUserMemory(userKey);
+    await RateLimiterService.resetRateLimit(userKey);
+
+    console.log(`Deleted account of user ${userKey} (${databases.length} databases)`);
+  }
+}
@@ -1,5 +1,6 @@
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import crypto from 'crypto';
 import { UserRole } from '@prisma/client';
 
 export interface JWTPayload {
@@ -9,12 +10,22 @@ export interface JWTPayload {
   firstName:string;
   lastName:string;
   phoneNumber:string;
+  sid?: string;   // Login session the token belongs to
+  jti?: string;   // Unique id of this access token
+  exp?: number;
 }
 
 export class AuthUtils {
   private static readonly SALT_ROUNDS = 12;
-  private static readonly JWT_SECRET = process.env.JWT_SECRET || 'fallback-secret-key';
-  private static readonly JWT_EXPIRES_IN = process.env.JWT_EXPIRES_IN || '7d';
+
+  // Read on first use, after .env is loaded
+  private static get JWT_SECRET(): string {
+    return process.env.JWT_SECRET || 'fallback-secret-key';
+  }
+
+  private static get JWT_EXPIRES_IN(): string {
+    return process.env.JWT_EXPIRES_IN || '15m';
+  }
 
   /**
    * Hash a password using bcrypt
@@ -31,11 +42,13 @@ export class AuthUtils {
   }
 
   /**
-   * Generate a JWT token
+   * Generate a short-lived JWT access token bound to a login session
    */
-  static generateToken(payload: JWTPayload): string {
-    return jwt.sign(payload, this.JWT_SECRET, {
+  static generateToken(payload: JWTPayload, sessionId: string): string {
+    const { sid, jti, exp, ...claims } = payload;
+    return jwt.sign({ ...claims, sid: sessionId }, this.JWT_SECRET, {
       expiresIn: this.JWT_EXPIRES_IN,
+      jwtid: crypto.randomUUID(),
     } as jwt.SignOptions);
   }
 
@@ -1,4 +1,5 @@
 import crypto from 'crypto';
+import { CacheStore, CacheStoreProvider } from './cacheStore';
 
 export interface CacheConfig {
   queryResultTTL: number; // 24 hours in milliseconds
@@ -21,6 +22,10 @@ export interface CacheStats {
   embeddings: { total: number; hits: number };
 }
 
+/**
+ * Query result, SQL query and embedding caches, kept in the cache store so that every API instance
+ * sees the same entries when a shared backend is configured
+ */
 export class CacheService {
   private static config: CacheConfig = {
     queryResultTTL: 24 * 60 * 60 * 1000, // 24 hours
@@ -29,10 +34,9 @@ export class CacheService {
     maxCacheSize: 1000 // per user
   };
 
-  // In-memory cache stores
-  private static queryResultCache = new Map<string, CachedItem>();
-  private static sqlQueryCache = new Map<string, CachedItem>();
-  private static embeddingCache = new Map<string, CachedItem>();
+  private static get store(): CacheStore {
+    return CacheStoreProvider.get();
+  }
 
   /**
    * Generate hash for question (normalized)
@@ -46,7 +50,8 @@ export class CacheService {
    * Generate hash for schema
    */
   static generateSchemaHash(schema: any): string {
-    const schemaString = JSON.stringify(schema, Object.keys(schema).sort());
+    // No replacer: a key list would also filter the keys of nested tables and columns
+    const schemaString = JSON.stringify(schema);
     return crypto.createHash('sha256').update(schemaString).digest('hex');
   }
 
@@ -85,33 +90,15 @@ export class CacheService {
   /**
    * Check if query result is cached
    */
-  static getCachedQueryResult(
+  static async getCachedQueryResult(
     userId: string,
     databaseId: string,
     question: string,
     schemaVersion: string
-  ): any | null {
+  ): Promise<any | null> {
     try {
       const key = this.getQueryResultKey(userId, databaseId, question, schemaVersion);
-      const cached = this.queryResultCache.get(key);
-
-      if (cached && Date.now() < cached.expiresAt) {
-        // Update hit count and last accessed
-        cached.hitCount++;
-        cached.lastAccessed = Date.now();
-        this.queryResultCache.set(key, cached);
-
-        console.log(`Cache HIT for query result: ${key}`);
-        return cached.data;
-      }
-
-      if (cached && Date.now() >= cached.expiresAt) {
-        // Remove expired item
-        this.queryResultCache.delete(key);
-      }
-
-      console.log(`Cache MISS for query result: ${key}`);
-      return null;
+      return await this.getItem(key, 'query result');
     } catch (error) {
       console.error('Error getting cached query result:', error);
       return null;
@@ -121,31 +108,21 @@ export class CacheService {
   /**
    * Cache query result
    */
-  static cacheQueryResult(
+  static async cacheQueryResult(
     userId: string,
     databaseId: string,
     question: string,
     response: any,
     schemaVersion: string,
     sqlQuery?: string
-  ): void {
+  ): Promise<void> {
     try {
       const key = this.getQueryResultKey(userId, databaseId, question, schemaVersion);
-      const now = Date.now();
-      const expiresAt = now + this.config.queryResultTTL;
 
       // Check cache size limit
-      this.enforceCacheSizeLimit('queryResults', userId);
-
-      const cachedItem: CachedItem = {
-        data: { response, sqlQuery },
-        createdAt: now,
-        expiresAt,
-        hitCount: 1,
-        lastAccessed: now
-      };
+      await this.enforceCacheSizeLimit('queryResults', userId);
 
-      this.queryResultCache.set(key, cachedItem);
+      await this.setItem(key, { response, sqlQuery }, this.config.queryResultTTL);
       console.log(`Cached query result: ${key}`);
     } catch (error) {
       console.error('Error caching query result:', error);
@@ -155,33 +132,15 @@ export class CacheService {
   /**
    * Check if SQL query is cached
    */
-  static getCachedSQLQuery(
+  static async getCachedSQLQuery(
     userId: string,
     databaseId: string,
     question: string,
     schema: any
-  ): string | null {
+  ): Promise<string | null> {
     try {
       const key = this.getSqlQueryKey(userId, databaseId, question, schema);
-      const cached = this.sqlQueryCache.get(key);
-
-      if (cached && Date.now() < cached.expiresAt) {
-        // Update hit count and last accessed
-        cached.hitCount++;
-        cached.lastAccessed = Date.now();
-        this.sqlQueryCache.set(key, cached);
-
-        console.log(`Cache HIT for SQL query: ${key}`);
-        return cached.data;
-      }
-
-      if (cached && Date.now() >= cached.expiresAt) {
-        // Remove expired item
-        this.sqlQueryCache.delete(key);
-      }
-
-      console.log(`Cache MISS for SQL query: ${key}`);
-      return null;
+      return await this.getItem(key, 'SQL query');
     } catch (error) {
       console.error('Error getting cached SQL query:', error);
       return null;
@@ -191,31 +150,21 @@ export class CacheService {
   /**
    * Cache SQL query
    */
-  static cacheSQLQuery(
+  static async cacheSQLQuery(
     userId: string,
     databaseId: string,
     question: string,
     sqlQuery: string,
     schema: any,
     databaseType: string
-  ): void {
+  ): Promise<void> {
     try {
       const key = this.getSqlQueryKey(userId, databaseId, question, schema);
-      const now = Date.now();
-      const expiresAt = now + this.config.sqlQueryTTL;
 
       // Check cache size limit
-      this.enforceCacheSizeLimit('sqlQueries', userId);
-
-      const cachedItem: CachedItem = {
-        data: sqlQuery,
-        createdAt: now,
-        expiresAt,
-        hitCount: 1,
-        lastAccessed: now
-      };
+      await this.enforceCacheSizeLimit('sqlQueries', userId);
 
-      this.sqlQueryCache.set(key, cachedItem);
+      await this.setItem(key, sqlQuery, this.config.sqlQueryTTL);
       console.log(`Cached SQL query: ${key}`);
     } catch (error) {
       console.error('Error caching SQL query:', error);
@@ -225,28 +174,9 @@ export class CacheService {
   /**
    * Check if embedding is cached
    */
-  static getCachedEmbedding(content: string): number[] | null {
+  static async getCachedEmbedding(content: string): Promise<number[] | null> {
     try {
-      const key = this.getEmbeddingKey(content);
-      const cached = this.embeddingCache.get(key);
-
-      if (cached && Date.now() < cached.expiresAt) {
-        // Update hit count and last accessed
-        cached.hitCount++;
-        cached.lastAccessed = Date.now();
-        this.embeddingCache.set(key, cached);
-
-        console.log(`Cache HIT for embedding: ${key}`);
-        return cached.data;
-      }
-
-      if (cached && Date.now() >= cached.expiresAt) {
-        // Remove expired item
-        this.embeddingCache.delete(key);
-      }
-
-      console.log(`Cache MISS for embedding: ${key}`);
-      return null;
+      return await this.getItem(this.getEmbeddingKey(content), 'embedding');
     } catch (error) {
       console.error('Error getting cached embedding:', error);
       return null;
@@ -256,21 +186,10 @@ export class CacheService {
   /**
    * Cache embedding
    */
-  static cacheEmbedding(content: string, embedding: number[]): void {
+  static async cacheEmbedding(content: string, embedding: number[]): Promise<void> {
     try {
       const key = this.getEmbeddingKey(content);
-      const now = Date.now();
-      const expiresAt = now + this.config.embeddingTTL;
-
-      const cachedItem: CachedItem = {
-        data: embedding,
-        createdAt: now,
-        expiresAt,
-        hitCount: 1,
-        lastAccessed: now
-      };
-
-      this.embeddingCache.set(key, cachedItem);
+      await this.setItem(key, embedding, this.config.embeddingTTL);
       console.log(`Cached embedding: ${key}`);
     } catch (error) {
       console.error('Error caching embedding:', error);
@@ -280,26 +199,9 @@ export class CacheService {
   /**
    * Invalidate cache for a specific database
    */
-  static invalidateDatabaseCache(userId: string, databaseId: string): void {
+  static async invalidateDatabaseCache(userId: string, databaseId: string): Promise<void> {
     try {
-      let deletedCount = 0;
-
-      // Delete query result cache entries
-      for (const [key, _] of this.queryResultCache) {
-        if (key.includes(`qr:${userId}:${databaseId}:`)) {
-          this.queryResultCache.delete(key);
-          deletedCount++;
-        }
-      }
-
-      // Delete SQL query cache entries
-      for (const [key, _] of this.sqlQueryCache) {
-        if (key.includes(`sql:${userId}:${databaseId}:`)) {
-          this.sqlQueryCache.delete(key);
-          deletedCount++;
-        }
-      }
-
+      const deletedCount = await this.deleteByPrefixes([`qr:${userId}:${databaseId}:`, `sql:${userId}:${databaseId}:`]);
       console.log(`Invalidated ${deletedCount} cache entries for user ${userId}, database ${databaseId}`);
     } catch (error) {
       console.error('Error invalidating database cache:', error);
@@ -309,26 +211,9 @@ export class CacheService {
   /**
    * Clear all cache for a user
    */
-  static clearUserCache(userId: string): void {
+  static async clearUserCache(userId: string): Promise<void> {
     try {
-      let deletedCount = 0;
-
-      // Delete query result cache entries
-      for (const [key, _] of this.queryResultCache) {
-        if (key.includes(`qr:${userId}:`)) {
-          this.queryResultCache.delete(key);
-          deletedCount++;
-        }
-      }
-
-      // Delete SQL query cache entries
-      for (const [key, _] of this.sqlQueryCache) {
-        if (key.includes(`sql:${userId}:`)) {
-          this.sqlQueryCache.delete(key);
-          deletedCount++;
-        }
-      }
-
+      const deletedCount = await this.deleteByPrefixes([`qr:${userId}:`, `sql:${userId}:`]);
       console.log(`Cleared ${deletedCount} cache entries for user ${userId}`);
     } catch (error) {
       console.error('Error clearing user cache:', error);
@@ -338,15 +223,11 @@ export class CacheService {
   /**
    * Clear all cache (global)
    */
-  static clearAllCache(): void {
+  static async clearAllCache(): Promise<void> {
     try {
-      const queryResultCount = this.queryResultCache.size;
-      const sqlQueryCount = this.sqlQueryCache.size;
-      const embeddingCount = this.embeddingCache.size;
-
-      this.queryResultCache.clear();
-      this.sqlQueryCache.clear();
-      this.embeddingCache.clear();
+      const queryResultCount = await this.deleteByPrefixes(['qr:']);
+      const sqlQueryCount = await this.deleteByPrefixes(['sql:']);
+      const embeddingCount = await this.deleteByPrefixes(['emb:']);
 
       console.log(`Cleared all cache: ${queryResultCount} query results, ${sqlQueryCount} SQL queries, ${embeddingCount} embeddings`);
     } catch (error) {
@@ -357,33 +238,14 @@ export class CacheService {
   /**
    * Get cache statistics
    */
-  static getCacheStats(userId?: string): CacheStats {
+  static async getCacheStats(userId?: string): Promise<CacheStats> {
     try {
-      let queryResults = { total: 0, hits: 0 };
-      let sqlQueries = { total: 0, hits: 0 };
-      let embeddings = { total: 0, hits: 0 };
-
-      // Calculate stats for query results
-      for (const [key, item] of this.queryResultCache) {
-        if (!userId || key.includes(`qr:${userId}:`)) {
-          queryResults.total++;
-          queryResults.hits += item.hitCount;
-        }
-      }
-
-      // Calculate stats for SQL queries
-      for (const [key, item] of this.sqlQueryCache) {
-        if (!userId || key.includes(`sql:${userId}:`)) {
-          sqlQueries.total++;
-          sqlQueries.hits += item.hitCount;
-        }
-      }
-
-      // Calculate stats for embeddings
-      for (const [key, item] of this.embeddingCache) {
-        embeddings.total++;
-        embeddings.hits += item.hitCount;
-      }
+      const userPart = userId ? `${userId}:` : '';
+      const [queryResults, sqlQueries, embeddings] = await Promise.all([
+        this.statsFor(`qr:${userPart}`),
+        this.statsFor(`sql:${userPart}`),
+        this.statsFor('emb:')
+      ]);
 
       return { queryResults, sqlQueries, embeddings };
     } catch (error) {
@@ -396,30 +258,82 @@ export class CacheService {
     }
   }
 
+  /**
+   * Read an item, counting the hit; expired items are removed
+   */
+  private static async getItem(key: string, label: string): Promise<any | null> {
+    const cached = await this.store.get<CachedItem>(key);
+    const now = Date.now();
+
+    if (cached && now < cached.expiresAt) {
+      // Update hit count and last accessed
+      cached.hitCount++;
+      cached.lastAccessed = now;
+      await this.store.set(key, cached, cached.expiresAt - now);
+
+      console.log(`Cache HIT for ${label}: ${key}`);
+      return cached.data;
+    }
+
+    if (cached) {
+      // Remove expired item
+      await this.store.delete([key]);
+    }
+
+    console.log(`Cache MISS for ${label}: ${key}`);
+    return null;
+  }
+
+  private static async setItem(key: string, data: any, ttl: number): Promise<void> {
+    const now = Date.now();
+    const cachedItem: CachedItem = {
+      data,
+      createdAt: now,
+      expiresAt: now + ttl,
+      hitCount: 1,
+      lastAccessed: now
+    };
+    await this.store.set(key, cachedItem, ttl);
+  }
+
+  private static async deleteByPrefixes(prefixes: string[]): Promise<number> {
+    let deletedCount = 0;
+    for (const prefix of prefixes) {
+      deletedCount += await this.store.delete(await this.store.keys(prefix));
+    }
+    return deletedCount;
+  }
+
+  private static async statsFor(prefix: string): Promise<{ total: number; hits: number }> {
+    const items = await this.store.getMany<CachedItem>(await this.store.keys(prefix));
+    const present = items.filter((item): item is CachedItem => item !== null);
+    return {
+      total: present.length,
+      hits: present.reduce((hits, item) => hits + item.hitCount, 0)
+    };
+  }
+
   /**
    * Enforce cache size limit by removing least recently used items
    */
-  private static enforceCacheSizeLimit(cacheType: 'queryResults' | 'sqlQueries', userId: string): void {
+  private static async enforceCacheSizeLimit(cacheType: 'queryResults' | 'sqlQueries', userId: string): Promise<void> {
     try {
-      const cache = cacheType === 'queryResults' ? this.queryResultCache : this.sqlQueryCache;
       const prefix = cacheType === 'queryResults' ? `qr:${userId}:` : `sql:${userId}:`;
 
       // Get all keys for this user
-      const userKeys = Array.from(cache.keys()).filter(key => key.startsWith(prefix));
+      const userKeys = await this.store.keys(prefix);
 
       if (userKeys.length >= this.config.maxCacheSize) {
         // Sort by last accessed time (oldest first)
-        const sortedKeys = userKeys.sort((a, b) => {
-          const itemA = cache.get(a);
-          const itemB = cache.get(b);
-          return (itemA?.lastAccessed || 0) - (itemB?.lastAccessed || 0);
-        });
+        const items = await this.store.getMany<CachedItem>(userKeys);
+        const sortedKeys = userKeys
+          .map((key, index) => ({ key, lastAccessed: items[index]?.lastAccessed || 0 }))
+          .sort((a, b) => a.lastAccessed - b.lastAccessed)
+          .map(entry => entry.key);
 
         // Remove oldest items
         const toRemove = userKeys.length - this.config.maxCacheSize + 1;
-        for (let i = 0; i < toRemove; i++) {
-          cache.delete(sortedKeys[i]);
-        }
+        await this.store.delete(sortedKeys.slice(0, toRemove));
 
         console.log(`Removed ${toRemove} old cache entries for user ${userId} (${cacheType})`);
       }
@@ -431,34 +345,9 @@ export class CacheService {
   /**
    * Clean up expired cache entries
    */
-  static cleanupExpiredCache(): void {
+  static async cleanupExpiredCache(): Promise<void> {
     try {
-      const now = Date.now();
-      let expiredCount = 0;
-
-      // Clean query result cache
-      for (const [key, item] of this.queryResultCache) {
-        if (now >= item.expiresAt) {
-          this.queryResultCache.delete(key);
-          expiredCount++;
-        }
-      }
-
-      // Clean SQL query cache
-      for (const [key, item] of this.sqlQueryCache) {
-        if (now >= item.expiresAt) {
-          this.sqlQueryCache.delete(key);
-          expiredCount++;
-        }
-      }
-
-      // Clean embedding cache
-      for (const [key, item] of this.embeddingCache) {
-        if (now >= item.expiresAt) {
-          this.embeddingCache.delete(key);
-          expiredCount++;
-        }
-      }
+      const expiredCount = await this.store.purgeExpired();
 
       if (expiredCount > 0) {
         console.log(`Cleaned up ${expiredCount} expired cache entries`);
@@ -471,11 +360,15 @@ export class CacheService {
   /**
    * Get cache size information
    */
-  static getCacheSize(): { queryResults: number; sqlQueries: number; embeddings: number } {
+  static async getCacheSize(): Promise<{ queryResults: number; sqlQueries: number; embeddings: number; backend: string }> {
+    const [queryResults, sqlQueries, embeddings] = await Promise.all(
+      ['qr:', 'sql:', 'emb:'].map(prefix => this.store.keys(prefix))
+    );
     return {
-      queryResults: this.queryResultCache.size,
-      sqlQueries: this.sqlQueryCache.size,
-      embeddings: this.embeddingCache.size
+      queryResults: queryResults.length,
+      sqlQueries: sqlQueries.length,
+      embeddings: embeddings.length,
+      backend: this.store.backend
     };
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+export type CacheBackendType = 'memory' | 'redis';
+
+/**
+ * Key-value store behind the query, SQL and embedding caches, vector stores and conversation memory. Values are stored as JSON and expire after
+ * their TTL; keys are plain strings, grouped by prefix.
+ */
+export interface CacheStore {
+  readonly backend: CacheBackendType;
+
+  get<T = any>(key: string): Promise<T | null>;
+  getMany<T = any>(keys: string[]): Promise<(T | null)[]>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  delete(keys: string[]): Promise<number>;
+
+  /**
+   * Unexpired keys starting with the prefix; an empty prefix lists every key of the store
+   */
+  keys(prefix: string): Promise<string[]>;
+
+  /**
+   * Remove expired keys the backend does not expire by itself; returns how many were removed
+   */
+  purgeExpired(): Promise<number>;
+
+  close(): Promise<void>;
+}
@@ -0,0 +1,59 @@
+import Redis from 'ioredis';
+import { CacheStore } from './cacheStore';
+import { MemoryCacheStore } from './memoryCacheStore';
+import { RedisCacheStore } from './redisCacheStore';
+
+/**
+ * The cache store of this process: a Redis-protocol server when REDIS_URL is set, so caches, vector stores,
+ * conversation memory and rate limits are shared by all instances, memory otherwise
+ */
+export class CacheStoreProvider {
+  private static readonly COMMAND_TIMEOUT_MS = 2000;
+  private static store: CacheStore | null = null;
+  private static redis: Redis | null = null;
+
+  static get(): CacheStore {
+    if (!this.store) {
+      const redis = this.getRedisClient();
+      this.store = redis ? new RedisCacheStore(redis, process.env.REDIS_KEY_PREFIX ?? 'cache:') : new MemoryCacheStore();
+    }
+    return this.store;
+  }
+
+  /**
+   * Client of the shared backend, null when none is configured
+   */
+  static getRedisClient(): Redis | null {
+    // Read on first use, after .env is loaded
+    const url = process.env.REDIS_URL;
+    if (!url) return null;
+    if (!this.redis) {
+      // Fail fast while the server is unreachable instead of queueing requests behind reconnects.
+      // No ready check: it needs INFO, which local stand-ins of the protocol may not implement.
+      this.redis = new Redis(url, {
+        maxRetriesPerRequest: 1,
+        commandTimeout: this.COMMAND_TIMEOUT_MS,
+        enableReadyCheck: false
+      });
+      this.redis.on('error', error => console.error('Cache backend error:', error.message));
+    }
+    return this.redis;
+  }
+
+  /**
+   * Close the connection to the shared backend
+   */
+  static async close(): Promise<void> {
+    const { store, redis } = this;
+    this.store = null;
+    this.redis = null;
+    if (store) {
+      await store.close();
+    } else if (redis) {
+      await redis.quit().catch(() => redis.disconnect());
+    }
+  }
+}
+
+export { MemoryCacheStore, RedisCacheStore };
+export * from './cacheStore';
@@ -0,0 +1,59 @@
+import { CacheStore } from './cacheStore';
+
+interface MemoryEntry {
+  json: string;       // Serialized like the shared backend, so cached values are never shared objects
+  expiresAt: number;
+}
+
+/**
+ * Process-local store, used when no shared backend is configured
+ */
+export class MemoryCacheStore implements CacheStore {
+  readonly backend = 'memory';
+  private entries = new Map<string, MemoryEntry>();
+
+  async get<T = any>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+    return JSON.parse(entry.json);
+  }
+
+  async getMany<T = any>(keys: string[]): Promise<(T | null)[]> {
+    return await Promise.all(keys.map(key => this.get<T>(key)));
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    this.entries.set(key, { json: JSON.stringify(value), expiresAt: Date.now() + Math.max(1, ttlMs) });
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    return keys.filter(key => this.entries.delete(key)).length;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const now = Date.now();
+    return Array.from(this.entries.entries())
+      .filter(([key, entry]) => key.startsWith(prefix) && now < entry.expiresAt)
+      .map(([key]) => key);
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (now >= entry.expiresAt) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async close(): Promise<void> {
+    this.entries.clear();
+  }
+}
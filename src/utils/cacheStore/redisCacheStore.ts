@@ -0,0 +1,66 @@
+import Redis from 'ioredis';
+import { CacheStore } from './cacheStore';
+
+/**
+ * Store on any server speaking the Redis protocol, shared by all API instances. Keys are namespaced
+ * with a prefix so the cache can share the server with rate limits and other applications.
+ */
+export class RedisCacheStore implements CacheStore {
+  private static readonly SCAN_COUNT = 500;
+  private static readonly DELETE_BATCH = 500;
+
+  readonly backend = 'redis';
+
+  constructor(readonly client: Redis, private readonly namespace: string) {}
+
+  async get<T = any>(key: string): Promise<T | null> {
+    const json = await this.client.get(this.namespace + key);
+    return json === null ? null : JSON.parse(json);
+  }
+
+  async getMany<T = any>(keys: string[]): Promise<(T | null)[]> {
+    if (keys.length === 0) return [];
+    const values = await this.client.mget(keys.map(key => this.namespace + key));
+    return values.map(json => (json === null ? null : JSON.parse(json)));
+  }
+
+  async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+    await this.client.set(this.namespace + key, JSON.stringify(value), 'PX', Math.max(1, Math.floor(ttlMs)));
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    let deleted = 0;
+    for (let start = 0; start < keys.length; start += RedisCacheStore.DELETE_BATCH) {
+      const batch = keys.slice(start, start + RedisCacheStore.DELETE_BATCH);
+      deleted += await this.client.del(...batch.map(key => this.namespace + key));
+    }
+    return deleted;
+  }
+
+  async keys(prefix: string): Promise<string[]> {
+    const pattern = this.escapePattern(this.namespace + prefix) + '*';
+    const keys = new Set<string>();
+    let cursor = '0';
+    // SCAN may return a key more than once
+    do {
+      const [next, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', RedisCacheStore.SCAN_COUNT);
+      batch.forEach(key => keys.add(key.slice(this.namespace.length)));
+      cursor = next;
+    } while (cursor !== '0');
+    return Array.from(keys);
+  }
+
+  async purgeExpired(): Promise<number> {
+    // The server expires keys itself
+    return 0;
+  }
+
+  async close(): Promise<void> {
+    // QUIT is deprecated on recent servers and missing on some stand-ins
+    await this.client.quit().catch(() => this.client.disconnect());
+  }
+
+  private escapePattern(value: string): string {
+    return value.replace(/[*?[\]\\]/g, character => `\\${character}`);
+  }
+}
@@ -0,0 +1,143 @@
+import { ColumnInfo, ColumnProfile, DataSourceConnector, TableInfo } from './connectors';
+
+/**
+ * Samples tables and records null rates, low-cardinality values and numeric/date ranges per column,
+ * so prompts can use real categorical values. Columns that look like personal data are never profiled.
+ */
+export class ColumnProfiler {
+  private static readonly MAX_TABLES = 100;
+  private static readonly MAX_VALUE_LENGTH = 64;
+
+  // Read on first use, after .env is loaded
+  private static get SAMPLE_ROWS(): number {
+    return Number(process.env.PROFILE_SAMPLE_ROWS) || 1000;
+  }
+
+  private static get MAX_DISTINCT_VALUES(): number {
+    return Number(process.env.PROFILE_MAX_DISTINCT_VALUES) || 20;
+  }
+
+  private static get QUERY_TIMEOUT_MS(): number {
+    return Number(process.env.PROFILE_QUERY_TIMEOUT_MS) || 10000;
+  }
+
+  // Matched against column names
+  private static readonly PII_COLUMN_PATTERN = new RegExp([
+    'e_?mail', 'phone', 'mobile', 'fax', 'ssn', 'social_?security', 'passport', 'national_?id', 'tax_?id',
+    'birth', '\\bdob\\b', 'address', 'street', 'zip', 'postal', 'postcode', 'password', 'passwd', 'secret',
+    'token', 'api_?key', 'iban', 'card_?number', 'credit_?card', 'cvv', 'account_?number', 'ip_?addr',
+    'latitude', 'longitude', '(first|last|middle|full|given|family|sur|user|customer|contact)_?name'
+  ].join('|'), 'i');
+
+  // Matched against sampled values, for personal data in columns with neutral names
+  private static readonly PII_VALUE_PATTERNS = [
+    /^[^\s@]+@[^\s@]+\.[^\s@]+$/,    // Email
+    /^\+\d[\d\s().-]{7,}\d$/,         // Phone number, international format
+    /^\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}$/   // Phone number, 555-123-4567
+  ];
+
+  private static readonly NUMERIC_TYPE_PATTERN = /\b(tiny|small|medium|big)?int(eger)?\b|numeric|decimal|double|float|real|money|number|long|serial/i;
+  private static readonly DATE_TYPE_PATTERN = /date|time/i;
+
+  /**
+   * Profile the columns of the given tables in place, on an open connection
+   */
+  static async profile(connector: DataSourceConnector, connection: any, tables: TableInfo[]): Promise<void> {
+    for (const table of tables.slice(0, this.MAX_TABLES)) {
+      try {
+        const query = connector.sampleQuery(table, this.SAMPLE_ROWS);
+        connector.validateQuery(query);
+        const rows = await connector.execute(connection, query, {
+          timeoutMs: this.QUERY_TIMEOUT_MS,
+          maxRows: this.SAMPLE_ROWS
+        });
+        const sample = rows.slice(0, this.SAMPLE_ROWS);
+
+        for (const column of table.columns) {
+          column.profile = this.isPersonalData(column, sample) ? undefined : this.profileColumn(column, sample);
+        }
+      } catch (error) {
+        // A table that cannot be sampled keeps its unprofiled columns
+        console.warn(`Profiling of table ${table.name} failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+
+  private static profileColumn(column: ColumnInfo, rows: any[]): ColumnProfile | undefined {
+    if (rows.length === 0) return undefined;
+
+    const values = rows.flatMap(row => this.valuesAt(row, column.name));
+    const present = values.filter(value => value !== null && value !== undefined);
+    const nullRows = rows.filter(row => this.valuesAt(row, column.name).every(value => value === null || value === undefined)).length;
+
+    const profile: ColumnProfile = {
+      sampledRows: rows.length,
+      nullRate: Math.round((nullRows / rows.length) * 100) / 100
+    };
+
+    if (present.length === 0) return profile;
+
+    const isDate = present.every(value => value instanceof Date) || this.DATE_TYPE_PATTERN.test(column.type);
+    const isNumeric = !isDate && (present.every(value => typeof value === 'number') || this.NUMERIC_TYPE_PATTERN.test(column.type));
+
+    if (isNumeric) {
+      const numbers = present.map(Number).filter(value => !isNaN(value));
+      if (numbers.length > 0) {
+        profile.min = Math.min(...numbers);
+        profile.max = Math.max(...numbers);
+      }
+    } else if (isDate) {
+      const timestamps = present.map(value => new Date(value).getTime()).filter(value => !isNaN(value));
+      if (timestamps.length > 0) {
+        profile.min = new Date(Math.min(...timestamps)).toISOString();
+        profile.max = new Date(Math.max(...timestamps)).toISOString();
+      }
+    }
+
+    // Categorical values: strings and booleans repeated often enough to be a fixed set
+    const categorical = present.filter(value => typeof value === 'string' || typeof value === 'boolean');
+    if (!isNumeric && !isDate && categorical.length === present.length) {
+      const counts = new Map<string, number>();
+      for (const value of categorical) {
+        const key = String(value);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+      const isLowCardinality = counts.size <= this.MAX_DISTINCT_VALUES && counts.size <= Math.max(1, present.length / 2);
+      if (isLowCardinality && Array.from(counts.keys()).every(value => value.length <= this.MAX_VALUE_LENGTH)) {
+        profile.values = Array.from(counts.entries())
+          .sort((a, b) => b[1] - a[1])
+          .map(([value]) => value);
+      }
+    }
+
+    return profile;
+  }
+
+  private static isPersonalData(column: ColumnInfo, rows: any[]): boolean {
+    if (this.PII_COLUMN_PATTERN.test(column.name)) return true;
+
+    return rows.some(row =>
+      this.valuesAt(row, column.name).some(value =>
+        typeof value === 'string' && this.PII_VALUE_PATTERNS.some(pattern => pattern.test(value.trim()))
+      )
+    );
+  }
+
+  /**
+   * Values of a column in a row; dotted paths of document stores are followed into nested objects and arrays
+   */
+  private static valuesAt(row: any, path: string): any[] {
+    if (row === null || typeof row !== 'object') return [undefined];
+    if (path in row) return [row[path]];
+
+    const dot = path.indexOf('.');
+    if (dot === -1) return [undefined];
+
+    const head = row[path.slice(0, dot)];
+    const rest = path.slice(dot + 1);
+    if (Array.isArray(head)) {
+      return head.length > 0 ? head.flatMap(element => this.valuesAt(element, rest)) : [undefined];
+    }
+    return this.valuesAt(head, rest);
+  }
+}
@@ -0,0 +1,195 @@
+import crypto from 'crypto';
+import { ConnectorRegistry, PooledConnection } from './connectors';
+
+export interface PoolStats {
+  databaseId: string;
+  dbType: string;
+  inUse: number;
+  idleForMs: number;
+}
+
+interface TenantPool {
+  databaseId: string;
+  dbType: string;
+  fingerprint: string;  // Hash of the connection string the pool was opened with
+  pool: any;            // Whatever the connector's openPool() returned
+  inUse: number;
+  lastUsedAt: number;
+}
+
+/**
+ * Connection pools for user databases, one per user database id
+ */
+export class ConnectionPoolManager {
+  private static readonly DRAIN_TIMEOUT_MS = 10 * 1000;
+  private static readonly MAINTENANCE_JOB_INTERVAL = 60 * 1000; // 1 minute
+  private static pools = new Map<string, TenantPool>();
+  private static opening = new Map<string, Promise<TenantPool>>();
+  private static maintenanceJob: NodeJS.Timeout | null = null;
+
+  // Read on first use, after .env is loaded
+  private static get MAX_PER_TENANT(): number {
+    return Number(process.env.DB_POOL_MAX_PER_TENANT) || 5;
+  }
+
+  private static get IDLE_TIMEOUT_MS(): number {
+    return Number(process.env.DB_POOL_IDLE_TIMEOUT_MS) || 10 * 60 * 1000; // 10 minutes
+  }
+
+  private static fingerprint(connectionString: string): string {
+    return crypto.createHash('sha256').update(connectionString).digest('hex');
+  }
+
+  /**
+   * Borrow a connection from the pool of a user database, opening the pool on first use
+   */
+  static async acquire(databaseId: string, connectionString: string, dbType: string): Promise<PooledConnection> {
+    const entry = await this.getPool(databaseId, connectionString, dbType);
+    entry.inUse++;
+    entry.lastUsedAt = Date.now();
+
+    const done = () => {
+      entry.inUse--;
+      entry.lastUsedAt = Date.now();
+    };
+
+    try {
+      const pooled = await ConnectorRegistry.get(dbType).acquire(entry.pool);
+      return {
+        connection: pooled.connection,
+        release: async (error?: unknown) => {
+          try {
+            await pooled.release(error);
+          } finally {
+            done();
+          }
+        }
+      };
+    } catch (error) {
+      done();
+      throw error;
+    }
+  }
+
+  /**
+   * Get the pool of a user database; a changed connection string replaces the pool
+   */
+  private static async getPool(databaseId: string, connectionString: string, dbType: string): Promise<TenantPool> {
+    const fingerprint = this.fingerprint(connectionString);
+    const existing = this.pools.get(databaseId);
+    if (existing && existing.fingerprint === fingerprint && existing.dbType === dbType) {
+      return existing;
+    }
+    if (existing) {
+      await this.drain(databaseId);
+    }
+
+    // Concurrent first requests share one pool
+    let opening = this.opening.get(databaseId);
+    if (!opening) {
+      const options = { max: this.MAX_PER_TENANT, idleTimeoutMs: this.IDLE_TIMEOUT_MS };
+      opening = ConnectorRegistry.get(dbType).openPool(connectionString, options)
+        .then(pool => {
+          const entry: TenantPool = { databaseId, dbType, fingerprint, pool, inUse: 0, lastUsedAt: Date.now() };
+          this.pools.set(databaseId, entry);
+          return entry;
+        })
+        .finally(() => this.opening.delete(databaseId));
+      this.opening.set(databaseId, opening);
+    }
+    return await opening;
+  }
+
+  /**
+   * Close the pool of a user database once its borrowed connections are returned
+   */
+  static async drain(databaseId: string): Promise<void> {
+    const entry = this.pools.get(databaseId);
+    if (!entry) return;
+    this.pools.delete(databaseId);
+
+    const deadline = Date.now() + this.DRAIN_TIMEOUT_MS;
+    while (entry.inUse > 0 && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    try {
+      await ConnectorRegistry.get(entry.dbType).closePool(entry.pool);
+    } catch (error) {
+      console.error(`Error draining pool of database ${databaseId}:`, error);
+    }
+  }
+
+  /**
+   * Close every pool (shutdown)
+   */
+  static async drainAll(): Promise<void> {
+    await Promise.all(Array.from(this.pools.keys()).map(databaseId => this.drain(databaseId)));
+  }
+
+  /**
+   * Check that the pool of a user database can still run a query
+   */
+  static async healthCheck(databaseId: string): Promise<boolean> {
+    const entry = this.pools.get(databaseId);
+    if (!entry) return false;
+
+    try {
+      await ConnectorRegistry.get(entry.dbType).ping(entry.pool);
+      return true;
+    } catch (error) {
+      console.warn(`Health check failed for database ${databaseId}:`, error instanceof Error ? error.message : error);
+      return false;
+    }
+  }
+
+  /**
+   * Evict pools idle for longer than IDLE_TIMEOUT_MS and drain those failing their health check
+   */
+  static async runMaintenance(): Promise<void> {
+    const now = Date.now();
+    for (const entry of Array.from(this.pools.values())) {
+      if (entry.inUse > 0) continue;
+
+      if (now - entry.lastUsedAt > this.IDLE_TIMEOUT_MS) {
+        await this.drain(entry.databaseId);
+      } else if (!(await this.healthCheck(entry.databaseId))) {
+        await this.drain(entry.databaseId);
+      }
+    }
+  }
+
+  /**
+   * Open pools and their usage
+   */
+  static getStats(): PoolStats[] {
+    const now = Date.now();
+    return Array.from(this.pools.values()).map(entry => ({
+      databaseId: entry.databaseId,
+      dbType: entry.dbType,
+      inUse: entry.inUse,
+      idleForMs: entry.inUse > 0 ? 0 : now - entry.lastUsedAt
+    }));
+  }
+
+  /**
+   * Start the scheduled eviction and health check job
+   */
+  static startMaintenanceJob(): void {
+    if (this.maintenanceJob) return;
+
+    this.maintenanceJob = setInterval(() => {
+      this.runMaintenance().catch(error => console.error('Connection pool maintenance failed:', error));
+    }, this.MAINTENANCE_JOB_INTERVAL);
+  }
+
+  /**
+   * Stop the scheduled eviction and health check job
+   */
+  static stopMaintenanceJob(): void {
+    if (this.maintenanceJob) {
+      clearInterval(this.maintenanceJob);
+      this.maintenanceJob = null;
+    }
+  }
+}
@@ -0,0 +1,232 @@
+export interface DatabaseSchema {
+  tables: TableInfo[];
+  databaseType: string;
+  databaseName: string;
+  profiledAt?: string;          // When column profiles were last collected (opt-in per database)
+}
+
+export interface TableInfo {
+  name: string;
+  schema?: string;              // Set by engines with schemas (PostgreSQL, SQL Server)
+  columns: ColumnInfo[];
+  rowCount?: number;
+  comment?: string;
+  foreignKeys?: ForeignKeyInfo[];
+  indexes?: IndexInfo[];        // Secondary indexes and unique constraints; the primary key is on the columns
+}
+
+export interface ColumnInfo {
+  name: string;
+  type: string;
+  isNullable: boolean;
+  isPrimaryKey: boolean;
+  defaultValue?: string;
+  enumValues?: string[];
+  comment?: string;
+  frequency?: number;   // Share of sampled documents containing the field (document stores)
+  profile?: ColumnProfile;
+}
+
+export interface ColumnProfile {
+  sampledRows: number;
+  nullRate: number;             // Share of sampled rows where the column is null or missing
+  values?: string[];            // Distinct values of a low-cardinality column, most frequent first
+  min?: string | number;        // Numeric and date columns
+  max?: string | number;
+}
+
+export interface ForeignKeyInfo {
+  name?: string;
+  columns: string[];
+  referencedSchema?: string;
+  referencedTable: string;
+  referencedColumns: string[];   // In the order of columns
+}
+
+export interface IndexInfo {
+  name: string;
+  columns: string[];
+  isUnique: boolean;
+}
+
+export interface SchemaFilter {
+  include: string[];   // Empty means every non-system schema
+  exclude: string[];
+}
+
+export interface VisibilityRules {
+  includeTables: string[];   // Empty means every table
+  excludeTables: string[];
+  maskedColumns: string[];   // table.column, schema-qualified where the engine has schemas
+}
+
+export interface ColumnReference {
+  table?: string;    // Unknown when the query leaves the column unqualified
+  column: string;    // '*' for all columns
+}
+
+export interface QueryReferences {
+  tables: string[];  // Schema-qualified as written
+  columns: ColumnReference[];
+  rows?: string[];   // Tables read as whole rows (row_to_json(e), SELECT e); not reported for documents
+}
+
+export interface QueryLimits {
+  timeoutMs: number;   // Statement timeout
+  maxRows: number;     // Rows returned at most
+}
+
+export interface PoolOptions {
+  max: number;             // Connections per user database
+  idleTimeoutMs: number;   // Idle connections are closed after this
+}
+
+export interface PooledConnection<TConnection = any> {
+  connection: TConnection;
+  release: (error?: unknown) => Promise<void>;  // Pass the error to discard a broken connection
+}
+
+export interface DialectPromptHints {
+  dialect: string;   // Name used in prompts, e.g. 'MySQL 8.0'
+  rules: string[];   // Appended to query generation and query fix prompts
+}
+
+/**
+ * A customer data source engine. Implementations are registered in ConnectorRegistry
+ * under the type stored in user_databases.database_type.
+ */
+export interface DataSourceConnector<TConnection = any, TPool = any> {
+  readonly type: string;
+  readonly promptHints: DialectPromptHints;
+
+  /** Whether a connection string belongs to this engine */
+  canHandle(connectionString: string): boolean;
+  extractDatabaseName(connectionString: string): string;
+
+  /** One-off connection, closed with close() */
+  connect(connectionString: string): Promise<TConnection>;
+  close(connection: TConnection): Promise<void>;
+
+  openPool(connectionString: string, options: PoolOptions): Promise<TPool>;
+  acquire(pool: TPool): Promise<PooledConnection<TConnection>>;
+  /** Throws when the pool cannot run a query */
+  ping(pool: TPool): Promise<void>;
+  closePool(pool: TPool): Promise<void>;
+
+  /** Engines without schemas ignore the filter */
+  introspect(connection: TConnection, schemas: SchemaFilter): Promise<TableInfo[]>;
+  /** Read-only query returning up to size rows of a table, used for column profiling */
+  sampleQuery(table: TableInfo, size: number): string;
+
+  /** Pull the query out of an LLM answer */
+  extractQuery(llmOutput: string): string;
+  /** Throw unless the query is safe to run against the customer's data */
+  validateQuery(query: string): void;
+  /** Tables and columns a validated query reads, for visibility rules */
+  references(query: string): QueryReferences;
+  /** Run a validated query read-only; returns at most limits.maxRows + 1 rows so truncation can be detected */
+  execute(connection: TConnection, query: string, limits: QueryLimits): Promise<any[]>;
+
+  /** Column type as shown to the model, when it differs from the raw type */
+  describeColumnType?(type: string): string;
+  /** Table name as it must be written in a query */
+  formatTableName?(name: string, schema?: string): string;
+}
+
+/**
+ * Render the dialect rules of a connector as prompt bullet points
+ */
+export function formatDialectRules(hints: DialectPromptHints): string {
+  return hints.rules.map(rule => `\n- ${rule}`).join('');
+}
+
+/**
+ * Schema-qualified table name, e.g. sales.orders; just the name for engines without schemas
+ */
+export function qualifiedTableName(table: { name: string; schema?: string }): string {
+  return table.schema ? `${table.schema}.${table.name}` : table.name;
+}
+
+function rowTableKey(schema: string | undefined, name: string): string {
+  return qualifiedTableName({ name, schema: schema || undefined });
+}
+
+/**
+ * Group information_schema column rows by (schema-qualified) table name
+ */
+export function groupColumnsByTable(rows: any[]): TableInfo[] {
+  const tableMap = new Map<string, TableInfo>();
+
+  for (const row of rows) {
+    const tableKey = rowTableKey(row.table_schema, row.table_name);
+
+    if (!tableMap.has(tableKey)) {
+      tableMap.set(tableKey, {
+        name: row.table_name,
+        schema: row.table_schema || undefined,
+        columns: []
+      });
+    }
+
+    const table = tableMap.get(tableKey)!;
+    if (row.table_comment && !table.comment) {
+      table.comment = row.table_comment;
+    }
+
+    // Check if column already exists to avoid duplicates
+    const columnExists = table.columns.some(col => col.name === row.column_name);
+    if (!columnExists) {
+      table.columns.push({
+        name: row.column_name,
+        type: row.data_type,
+        isNullable: row.is_nullable === 'YES',
+        isPrimaryKey: row.is_primary_key === 'YES' || row.is_primary_key === true,
+        defaultValue: row.column_default,
+        comment: row.column_comment || undefined
+      });
+    }
+  }
+
+  return Array.from(tableMap.values());
+}
+
+/**
+ * Attach foreign key and index rows (one row per column, in key order) to their tables
+ */
+export function attachKeysAndIndexes(tables: TableInfo[], foreignKeyRows: any[], indexRows: any[]): void {
+  const tableMap = new Map(tables.map(table => [qualifiedTableName(table), table]));
+
+  for (const row of foreignKeyRows) {
+    const table = tableMap.get(rowTableKey(row.table_schema, row.table_name));
+    if (!table) continue;
+
+    table.foreignKeys = table.foreignKeys ?? [];
+    let foreignKey = table.foreignKeys.find(fk => fk.name === row.constraint_name && fk.referencedTable === row.referenced_table_name);
+    if (!foreignKey) {
+      foreignKey = {
+        name: row.constraint_name,
+        columns: [],
+        referencedSchema: row.referenced_table_schema || undefined,
+        referencedTable: row.referenced_table_name,
+        referencedColumns: []
+      };
+      table.foreignKeys.push(foreignKey);
+    }
+    foreignKey.columns.push(row.column_name);
+    foreignKey.referencedColumns.push(row.referenced_column_name);
+  }
+
+  for (const row of indexRows) {
+    const table = tableMap.get(rowTableKey(row.table_schema, row.table_name));
+    // Expression indexes have no column name
+    if (!table || !row.column_name) continue;
+
+    table.indexes = table.indexes ?? [];
+    let index = table.indexes.find(idx => idx.name === row.index_name);
+    if (!index) {
+      index = { name: row.index_name, columns: [], isUnique: row.is_unique === true || row.is_unique === 1 || row.is_unique === 'YES' };
+      table.indexes.push(index);
+    }
+    index.columns.push(row.column_name);
+  }
+}
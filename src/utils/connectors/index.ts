@@ -0,0 +1,16 @@
+import { ConnectorRegistry } from './registry';
+import { PostgreSQLConnector } from './postgresql';
+import { MySQLConnector } from './mysql';
+import { MongoDBConnector } from './mongodb';
+import { SQLServerConnector } from './sqlserver';
+import { SQLiteConnector } from './sqlite';
+
+// Built-in engines, in connection string detection order
+ConnectorRegistry.register(new PostgreSQLConnector());
+ConnectorRegistry.register(new MySQLConnector());
+ConnectorRegistry.register(new MongoDBConnector());
+ConnectorRegistry.register(new SQLServerConnector());
+ConnectorRegistry.register(new SQLiteConnector());
+
+export { ConnectorRegistry };
+export * from './connector';
@@ -0,0 +1,357 @@
+import { BSON, Document } from 'mongodb';
+import { UnsafeQueryError } from '../sqlValidator';
+import { ColumnReference, QueryReferences } from './connector';
+
+export interface ParsedAggregation {
+  collection: string;
+  pipeline: Document[];
+}
+
+/**
+ * Reads the relaxed JSON models write in mongo shell syntax: unquoted keys, single quotes,
+ * trailing commas, comments, regex literals and the ObjectId/ISODate/NumberLong/... helpers.
+ * Shell helpers become Extended JSON, so anything that is not a literal is rejected rather than evaluated.
+ */
+class RelaxedJSONReader {
+  private pos = 0;
+
+  constructor(private readonly text: string) {}
+
+  get position(): number {
+    return this.pos;
+  }
+
+  readValue(): any {
+    this.skipWhitespace();
+    const char = this.text[this.pos];
+
+    if (char === '{') return this.readObject();
+    if (char === '[') return this.readArray();
+    if (char === '"' || char === "'") return this.readString();
+    if (char === '/') return this.readRegex();
+    if (char === '-' || char === '.' || /\d/.test(char ?? '')) return this.readNumber();
+
+    const identifier = this.readIdentifier();
+    switch (identifier) {
+      case 'true': return true;
+      case 'false': return false;
+      case 'null':
+      case 'undefined':
+        return null;
+      case 'new':
+        return this.readCall(this.readIdentifier());
+      default:
+        return this.readCall(identifier);
+    }
+  }
+
+  /**
+   * Consume an exact token, e.g. the closing parenthesis of aggregate(...)
+   */
+  expect(token: string): void {
+    this.skipWhitespace();
+    if (!this.text.startsWith(token, this.pos)) {
+      throw this.error(`Expected "${token}"`);
+    }
+    this.pos += token.length;
+  }
+
+  /**
+   * Consume an optional token
+   */
+  accept(token: string): boolean {
+    this.skipWhitespace();
+    if (this.text.startsWith(token, this.pos)) {
+      this.pos += token.length;
+      return true;
+    }
+    return false;
+  }
+
+  atEnd(): boolean {
+    this.skipWhitespace();
+    return this.pos >= this.text.length;
+  }
+
+  private readObject(): Record<string, any> {
+    const object: Record<string, any> = {};
+    this.expect('{');
+    while (!this.accept('}')) {
+      this.skipWhitespace();
+      const char = this.text[this.pos];
+      const key = char === '"' || char === "'" ? this.readString() : this.readIdentifier(true);
+      this.expect(':');
+      object[key] = this.readValue();
+      if (!this.accept(',')) {
+        this.expect('}');
+        break;
+      }
+    }
+    return object;
+  }
+
+  private readArray(): any[] {
+    const array: any[] = [];
+    this.expect('[');
+    while (!this.accept(']')) {
+      array.push(this.readValue());
+      if (!this.accept(',')) {
+        this.expect(']');
+        break;
+      }
+    }
+    return array;
+  }
+
+  private readString(): string {
+    const quote = this.text[this.pos++];
+    let value = '';
+    while (this.pos < this.text.length) {
+      const char = this.text[this.pos++];
+      if (char === quote) return value;
+      if (char !== '\\') {
+        value += char;
+        continue;
+      }
+
+      const escaped = this.text[this.pos++];
+      switch (escaped) {
+        case 'n': value += '\n'; break;
+        case 't': value += '\t'; break;
+        case 'r': value += '\r'; break;
+        case 'b': value += '\b'; break;
+        case 'f': value += '\f'; break;
+        case 'u':
+          value += String.fromCharCode(parseInt(this.text.slice(this.pos, this.pos + 4), 16));
+          this.pos += 4;
+          break;
+        default: value += escaped;
+      }
+    }
+    throw this.error('Unterminated string');
+  }
+
+  private readNumber(): number {
+    const match = /-?(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/y;
+    match.lastIndex = this.pos;
+    const result = match.exec(this.text);
+    if (!result) throw this.error('Invalid number');
+    this.pos += result[0].length;
+    return Number(result[0]);
+  }
+
+  private readRegex(): Document {
+    const match = /\/((?:\\.|[^\\/\n])+)\/([gimsux]*)/y;
+    match.lastIndex = this.pos;
+    const result = match.exec(this.text);
+    if (!result) throw this.error('Invalid regular expression');
+    this.pos += result[0].length;
+    return { $regularExpression: { pattern: result[1], options: result[2].replace('g', '') } };
+  }
+
+  private readIdentifier(allowDots = false): string {
+    this.skipWhitespace();
+    const match = allowDots ? /[A-Za-z_$][\w$.]*/y : /[A-Za-z_$][\w$]*/y;
+    match.lastIndex = this.pos;
+    const result = match.exec(this.text);
+    if (!result) throw this.error('Unexpected character');
+    this.pos += result[0].length;
+    return result[0];
+  }
+
+  /**
+   * Shell helpers, written as Extended JSON for EJSON to turn into BSON values
+   */
+  private readCall(name: string): Document {
+    this.expect('(');
+    const argument = this.accept(')') ? undefined : this.readValue();
+    if (argument !== undefined) this.expect(')');
+
+    switch (name) {
+      case 'ObjectId':
+        return { $oid: String(argument) };
+      case 'ISODate':
+      case 'Date':
+        return { $date: argument === undefined ? new Date().toISOString() : new Date(argument).toISOString() };
+      case 'NumberInt':
+        return { $numberInt: String(argument) };
+      case 'NumberLong':
+        return { $numberLong: String(argument) };
+      case 'NumberDecimal':
+      case 'Decimal128':
+        return { $numberDecimal: String(argument) };
+      default:
+        throw this.error(`Unsupported expression ${name}()`);
+    }
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.text.length) {
+      if (/\s/.test(this.text[this.pos])) {
+        this.pos++;
+      } else if (this.text.startsWith('//', this.pos)) {
+        const end = this.text.indexOf('\n', this.pos);
+        this.pos = end === -1 ? this.text.length : end;
+      } else if (this.text.startsWith('/*', this.pos)) {
+        const end = this.text.indexOf('*/', this.pos);
+        this.pos = end === -1 ? this.text.length : end + 2;
+      } else {
+        break;
+      }
+    }
+  }
+
+  private error(message: string): Error {
+    return new Error(`${message} at position ${this.pos}`);
+  }
+}
+
+export class MongoPipelineParser {
+  // Stages that only read; everything else (including $out and $merge) is rejected
+  private static readonly ALLOWED_STAGES = new Set([
+    '$match', '$project', '$addFields', '$set', '$unset', '$group', '$sort', '$limit', '$skip',
+    '$count', '$unwind', '$lookup', '$graphLookup', '$unionWith', '$facet', '$bucket', '$bucketAuto',
+    '$sortByCount', '$replaceRoot', '$replaceWith', '$sample', '$densify', '$fill', '$setWindowFields',
+    '$redact', '$geoNear'
+  ]);
+
+  // Operators that run JavaScript on the server
+  private static readonly DENIED_OPERATORS = new Set(['$where', '$function', '$accumulator']);
+
+  private static readonly QUERY_PREFIX = /^db\.(?:getCollection\(\s*(["'])([^"']+)\1\s*\)|(\w+))\.aggregate\(/;
+
+  /**
+   * Parse db.collection.aggregate([...]) and check that the pipeline only reads
+   */
+  static parse(query: string): ParsedAggregation {
+    const text = query.trim();
+    const prefix = text.match(this.QUERY_PREFIX);
+    if (!prefix) {
+      throw new UnsafeQueryError(['Invalid MongoDB aggregation query format. Expected: db.collectionName.aggregate([...])']);
+    }
+    const collection = prefix[2] ?? prefix[3];
+
+    let pipeline: any;
+    try {
+      const reader = new RelaxedJSONReader(text.slice(prefix[0].length));
+      const raw = reader.readValue();
+      reader.expect(')');
+      reader.accept('.toArray()');
+      reader.accept(';');
+      if (!reader.atEnd()) {
+        throw new Error(`Unexpected input after the pipeline at position ${reader.position}`);
+      }
+      pipeline = BSON.EJSON.deserialize(raw, { relaxed: true });
+    } catch (error) {
+      throw new UnsafeQueryError([`Pipeline could not be parsed: ${error instanceof Error ? error.message : 'Unknown error'}`]);
+    }
+
+    const errors: string[] = [];
+    if (!Array.isArray(pipeline)) {
+      errors.push('The aggregation pipeline must be an array of stages');
+    } else {
+      this.validateStages(pipeline, errors);
+    }
+
+    if (errors.length > 0) {
+      throw new UnsafeQueryError(Array.from(new Set(errors)));
+    }
+    return { collection, pipeline };
+  }
+
+  /**
+   * Collections and field paths a parsed pipeline reads: the source collection, $lookup/$graphLookup/$unionWith
+   * sources, "$field" expressions and field names used as keys. Fields are not attributed to a collection.
+   */
+  static references(parsed: ParsedAggregation): QueryReferences {
+    const tables = new Set([parsed.collection]);
+    const columns = new Map<string, ColumnReference>();
+    const addColumn = (path: unknown) => {
+      if (typeof path === 'string' && path !== '' && !path.startsWith('$')) {
+        columns.set(path, { column: path });
+      }
+    };
+
+    const visit = (node: any, inStage: boolean): void => {
+      if (typeof node === 'string') {
+        // "$field.path" reads a field, "$$variable" does not
+        if (node.startsWith('$') && !node.startsWith('$$')) addColumn(node.slice(1));
+        return;
+      }
+      if (node === null || typeof node !== 'object') return;
+      if (Array.isArray(node)) {
+        node.forEach(child => visit(child, inStage));
+        return;
+      }
+
+      for (const [key, child] of Object.entries(node)) {
+        if (key === '$lookup' || key === '$graphLookup') {
+          const spec = child as any;
+          if (typeof spec?.from === 'string') tables.add(spec.from);
+          [spec?.localField, spec?.foreignField, spec?.connectFromField, spec?.connectToField].forEach(addColumn);
+          visit(spec?.startWith, true);
+          visit(spec?.let, true);
+          visit(spec?.pipeline, false);
+          continue;
+        }
+        if (key === '$unionWith') {
+          const spec = child as any;
+          const source = typeof spec === 'string' ? spec : spec?.coll;
+          if (typeof source === 'string') tables.add(source);
+          visit(spec?.pipeline, false);
+          continue;
+        }
+        if (inStage && !key.startsWith('$')) addColumn(key);
+        visit(child, true);
+      }
+    };
+    visit(parsed.pipeline, false);
+
+    return { tables: Array.from(tables), columns: Array.from(columns.values()) };
+  }
+
+  /**
+   * Check every stage, including the sub-pipelines of $lookup, $unionWith and $facet
+   */
+  private static validateStages(stages: any[], errors: string[]): void {
+    for (const stage of stages) {
+      const keys = stage && typeof stage === 'object' && !Array.isArray(stage) ? Object.keys(stage) : [];
+      if (keys.length !== 1) {
+        errors.push('Each pipeline stage must be an object with exactly one stage operator');
+        continue;
+      }
+
+      const [name] = keys;
+      if (!this.ALLOWED_STAGES.has(name)) {
+        errors.push(`Stage ${name} is not allowed`);
+        continue;
+      }
+
+      const body = stage[name];
+      if ((name === '$lookup' || name === '$unionWith') && Array.isArray(body?.pipeline)) {
+        this.validateStages(body.pipeline, errors);
+      }
+      if (name === '$facet' && body && typeof body === 'object') {
+        for (const subPipeline of Object.values(body)) {
+          if (Array.isArray(subPipeline)) this.validateStages(subPipeline, errors);
+        }
+      }
+
+      this.inspectOperators(body, errors);
+    }
+  }
+
+  private static inspectOperators(node: any, errors: string[]): void {
+    if (node === null || typeof node !== 'object') return;
+
+    for (const [key, child] of Object.entries(node)) {
+      if (this.DENIED_OPERATORS.has(key)) {
+        errors.push(`Operator ${key} is not allowed`);
+      }
+      if (key === '$out' || key === '$merge') {
+        errors.push(`Stage ${key} is not allowed`);
+      }
+      this.inspectOperators(child, errors);
+    }
+  }
+}
@@ -0,0 +1,179 @@
+import mysql from 'mysql2/promise';
+import { SQLValidator } from '../sqlValidator';
+import { DataSourceConnector, PoolOptions, PooledConnection, QueryLimits, QueryReferences, TableInfo, attachKeysAndIndexes } from './connector';
+
+export class MySQLConnector implements DataSourceConnector<mysql.Connection, mysql.Pool> {
+  readonly type = 'mysql';
+  readonly promptHints = {
+    dialect: 'MySQL 8.0',
+    rules: [
+      'Use only MySQL 8.0 compatible syntax.',
+      'Do not use multiple CTEs (WITH ... AS ...), use subqueries if needed.',
+      'Do not use double quotes for table or column names. Use backticks or no quotes.',
+      'The server runs with ONLY_FULL_GROUP_BY: every non-aggregated column in SELECT must be in GROUP BY.'
+    ]
+  };
+
+  canHandle(connectionString: string): boolean {
+    const lowerConnStr = connectionString.toLowerCase();
+    return lowerConnStr.includes('mysql://') || lowerConnStr.includes('mariadb://');
+  }
+
+  extractDatabaseName(connectionString: string): string {
+    const mysqlMatch = connectionString.match(/\/\/([^:]+:[^@]+@)?[^\/]+\/([^?]+)/);
+    return mysqlMatch ? mysqlMatch[2] : 'unknown';
+  }
+
+  async connect(connectionString: string): Promise<mysql.Connection> {
+    return await mysql.createConnection(connectionString);
+  }
+
+  async close(connection: mysql.Connection): Promise<void> {
+    await connection.end();
+  }
+
+  async openPool(connectionString: string, options: PoolOptions): Promise<mysql.Pool> {
+    return mysql.createPool({
+      uri: connectionString,
+      connectionLimit: options.max,
+      maxIdle: options.max,
+      idleTimeout: options.idleTimeoutMs
+    });
+  }
+
+  async acquire(pool: mysql.Pool): Promise<PooledConnection<mysql.Connection>> {
+    const connection = await pool.getConnection();
+    return {
+      connection,
+      release: async (error?: unknown) => {
+        if (error) {
+          connection.destroy();
+        } else {
+          connection.release();
+        }
+      }
+    };
+  }
+
+  async ping(pool: mysql.Pool): Promise<void> {
+    await pool.query('SELECT 1');
+  }
+
+  async closePool(pool: mysql.Pool): Promise<void> {
+    await pool.end();
+  }
+
+  async introspect(connection: mysql.Connection): Promise<TableInfo[]> {
+    // First, get all tables
+    const tablesQuery = `
+      SELECT TABLE_NAME as table_name, TABLE_COMMENT as table_comment
+      FROM information_schema.tables
+      WHERE table_schema = DATABASE() AND table_type = 'BASE TABLE'
+      ORDER BY table_name
+    `;
+
+    const [tablesResult] = await connection.execute(tablesQuery);
+    const tables = (tablesResult as any[]).filter(row => row.table_name != null);
+
+    const tableInfos: TableInfo[] = [];
+
+    for (const { table_name: tableName, table_comment: tableComment } of tables) {
+      if (!tableName) continue; // Skip undefined/null table names
+
+      // Get columns for each table
+      const columnsQuery = `
+        SELECT
+          COLUMN_NAME as column_name,
+          DATA_TYPE as data_type,
+          IS_NULLABLE as is_nullable,
+          COLUMN_DEFAULT as column_default,
+          COLUMN_KEY as column_key,
+          COLUMN_COMMENT as column_comment
+        FROM information_schema.columns
+        WHERE table_schema = DATABASE() AND table_name = ?
+        ORDER BY ordinal_position
+      `;
+
+      const [columnsResult] = await connection.execute(columnsQuery, [tableName]);
+      const columns = (columnsResult as any[]).map(col => ({
+        name: col.column_name,
+        type: col.data_type,
+        isNullable: col.is_nullable === 'YES',
+        isPrimaryKey: col.column_key === 'PRI',
+        defaultValue: col.column_default,
+        comment: col.column_comment || undefined
+      }));
+
+      tableInfos.push({
+        name: tableName,
+        columns: columns,
+        comment: tableComment || undefined
+      });
+    }
+
+    const [foreignKeys] = await connection.execute(`
+      SELECT
+        TABLE_NAME as table_name,
+        CONSTRAINT_NAME as constraint_name,
+        COLUMN_NAME as column_name,
+        REFERENCED_TABLE_NAME as referenced_table_name,
+        REFERENCED_COLUMN_NAME as referenced_column_name
+      FROM information_schema.key_column_usage
+      WHERE table_schema = DATABASE() AND referenced_table_name IS NOT NULL
+      ORDER BY table_name, constraint_name, ordinal_position
+    `);
+    const [indexes] = await connection.execute(`
+      SELECT
+        TABLE_NAME as table_name,
+        INDEX_NAME as index_name,
+        COLUMN_NAME as column_name,
+        NON_UNIQUE = 0 as is_unique
+      FROM information_schema.statistics
+      WHERE table_schema = DATABASE() AND index_name <> 'PRIMARY'
+      ORDER BY table_name, index_name, seq_in_index
+    `);
+    attachKeysAndIndexes(tableInfos, foreignKeys as any[], indexes as any[]);
+
+    return tableInfos;
+  }
+
+  sampleQuery(table: TableInfo, size: number): string {
+    return `SELECT * FROM \`${table.name.replace(/`/g, '``')}\` LIMIT ${Math.floor(size)}`;
+  }
+
+  extractQuery(llmOutput: string): string {
+    // Models still quote identifiers with double quotes, which MySQL reads as strings
+    return SQLValidator.extractQuery(llmOutput).replace(/"/g, '`');
+  }
+
+  validateQuery(query: string): void {
+    SQLValidator.assertReadOnly(query, this.type);
+  }
+
+  references(query: string): QueryReferences {
+    const { tables, columns, rows } = SQLValidator.validate(query, this.type);
+    return { tables, columns, rows };
+  }
+
+  /**
+   * Read-only transaction, max execution time, sql_select_limit (reset for the next user of a pooled connection)
+   */
+  async execute(connection: mysql.Connection, query: string, limits: QueryLimits): Promise<any[]> {
+    try {
+      await connection.query(`SET SESSION MAX_EXECUTION_TIME = ${Math.floor(limits.timeoutMs)}`);
+    } catch {
+      // MariaDB names it max_statement_time and counts in seconds
+      await connection.query(`SET SESSION max_statement_time = ${Math.max(limits.timeoutMs / 1000, 1)}`);
+    }
+    await connection.query(`SET SESSION sql_select_limit = ${Math.floor(limits.maxRows) + 1}`);
+
+    await connection.query('START TRANSACTION READ ONLY');
+    try {
+      const [rows] = await connection.execute({ sql: query, timeout: limits.timeoutMs });
+      return rows as any[];
+    } finally {
+      await connection.query('ROLLBACK');
+      await connection.query('SET SESSION sql_select_limit = DEFAULT');
+    }
+  }
+}
@@ -0,0 +1,237 @@
+import { Client, ClientBase, Pool } from 'pg';
+import { SQLValidator } from '../sqlValidator';
+import { DataSourceConnector, PoolOptions, PooledConnection, QueryLimits, QueryReferences, SchemaFilter, TableInfo, attachKeysAndIndexes, groupColumnsByTable, qualifiedTableName } from './connector';
+
+export class PostgreSQLConnector implements DataSourceConnector<ClientBase, Pool> {
+  readonly type = 'postgresql';
+  readonly promptHints = {
+    dialect: 'PostgreSQL',
+    rules: [
+      'Use only PostgreSQL compatible syntax.',
+      'Wrap table and column names that contain uppercase letters in double quotes.'
+    ]
+  };
+
+  canHandle(connectionString: string): boolean {
+    const lowerConnStr = connectionString.toLowerCase();
+    return lowerConnStr.includes('postgresql://') || lowerConnStr.includes('postgres://');
+  }
+
+  extractDatabaseName(connectionString: string): string {
+    const pgMatch = connectionString.match(/\/\/([^:]+:[^@]+@)?[^\/]+\/([^?]+)/);
+    return pgMatch ? pgMatch[2] : 'unknown';
+  }
+
+  async connect(connectionString: string): Promise<ClientBase> {
+    const pgClient = new Client({ connectionString });
+    await pgClient.connect();
+    return pgClient;
+  }
+
+  async close(connection: ClientBase): Promise<void> {
+    await (connection as Client).end();
+  }
+
+  async openPool(connectionString: string, options: PoolOptions): Promise<Pool> {
+    const pool = new Pool({
+      connectionString,
+      max: options.max,
+      idleTimeoutMillis: options.idleTimeoutMs
+    });
+    // Errors on idle clients would otherwise crash the process
+    pool.on('error', error => console.error('PostgreSQL pool error:', error.message));
+    return pool;
+  }
+
+  async acquire(pool: Pool): Promise<PooledConnection<ClientBase>> {
+    const client = await pool.connect();
+    return {
+      connection: client,
+      // A truthy argument makes pg destroy the client instead of returning it
+      release: async (error?: unknown) => client.release(error instanceof Error ? error : undefined)
+    };
+  }
+
+  async ping(pool: Pool): Promise<void> {
+    await pool.query('SELECT 1');
+  }
+
+  async closePool(pool: Pool): Promise<void> {
+    await pool.end();
+  }
+
+  /**
+   * Tables of every schema passing the filter; $1/$2 are the include/exclude lists
+   */
+  async introspect(connection: ClientBase, schemas: SchemaFilter): Promise<TableInfo[]> {
+    const params = [schemas.include, schemas.exclude];
+    const schemaCondition = (column: string) => `
+      ${column} NOT IN ('pg_catalog', 'information_schema')
+      AND ${column} NOT LIKE 'pg\\_toast%' AND ${column} NOT LIKE 'pg\\_temp\\_%'
+      AND (cardinality($1::text[]) = 0 OR ${column} = ANY($1::text[]))
+      AND NOT (${column} = ANY($2::text[]))
+    `;
+
+    const query = `
+      SELECT
+        t.table_schema,
+        t.table_name,
+        c.column_name,
+        c.data_type,
+        c.is_nullable,
+        CASE WHEN pk.column_name IS NOT NULL THEN true ELSE false END as is_primary_key,
+        c.column_default,
+        c.udt_schema,
+        c.udt_name,
+        col_description(format('%I.%I', c.table_schema, c.table_name)::regclass, c.ordinal_position) as column_comment,
+        obj_description(format('%I.%I', t.table_schema, t.table_name)::regclass, 'pg_class') as table_comment
+      FROM information_schema.tables t
+      JOIN information_schema.columns c ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+      LEFT JOIN (
+        SELECT kcu.table_schema, kcu.table_name, kcu.column_name
+        FROM information_schema.table_constraints tc
+        JOIN information_schema.key_column_usage kcu
+          ON tc.constraint_schema = kcu.constraint_schema AND tc.constraint_name = kcu.constraint_name
+        WHERE tc.constraint_type = 'PRIMARY KEY'
+      ) pk ON t.table_schema = pk.table_schema AND t.table_name = pk.table_name AND c.column_name = pk.column_name
+      WHERE t.table_type = 'BASE TABLE' AND ${schemaCondition('t.table_schema')}
+      ORDER BY t.table_schema, t.table_name, c.ordinal_position
+    `;
+
+    const result = await connection.query(query, params);
+    const tableInfos = groupColumnsByTable(result.rows);
+
+    // Enhance enum columns with the values of their (schema-qualified) enum type
+    const enumTypes = await this.getEnumTypes(connection);
+    const tablesByName = new Map(tableInfos.map(table => [qualifiedTableName(table), table]));
+    for (const row of result.rows) {
+      if (row.data_type !== 'USER-DEFINED') continue;
+      const column = tablesByName
+        .get(qualifiedTableName({ name: row.table_name, schema: row.table_schema }))
+        ?.columns.find(col => col.name === row.column_name);
+      if (column) {
+        column.enumValues = enumTypes.get(`${row.udt_schema}.${row.udt_name}`) ?? [];
+      }
+    }
+
+    const [foreignKeys, indexes] = await Promise.all([
+      connection.query(`
+        SELECT
+          ns.nspname as table_schema,
+          cl.relname as table_name,
+          con.conname as constraint_name,
+          att.attname as column_name,
+          rns.nspname as referenced_table_schema,
+          rcl.relname as referenced_table_name,
+          ratt.attname as referenced_column_name
+        FROM pg_constraint con
+        JOIN pg_class cl ON cl.oid = con.conrelid
+        JOIN pg_namespace ns ON ns.oid = cl.relnamespace
+        JOIN pg_class rcl ON rcl.oid = con.confrelid
+        JOIN pg_namespace rns ON rns.oid = rcl.relnamespace
+        CROSS JOIN LATERAL unnest(con.conkey, con.confkey) WITH ORDINALITY AS k(attnum, refattnum, ord)
+        JOIN pg_attribute att ON att.attrelid = con.conrelid AND att.attnum = k.attnum
+        JOIN pg_attribute ratt ON ratt.attrelid = con.confrelid AND ratt.attnum = k.refattnum
+        WHERE con.contype = 'f' AND ${schemaCondition('ns.nspname')}
+        ORDER BY ns.nspname, cl.relname, con.conname, k.ord
+      `, params),
+      connection.query(`
+        SELECT
+          ns.nspname as table_schema,
+          t.relname as table_name,
+          i.relname as index_name,
+          a.attname as column_name,
+          ix.indisunique as is_unique
+        FROM pg_index ix
+        JOIN pg_class t ON t.oid = ix.indrelid
+        JOIN pg_class i ON i.oid = ix.indexrelid
+        JOIN pg_namespace ns ON ns.oid = t.relnamespace
+        CROSS JOIN LATERAL unnest(ix.indkey::int2[]) WITH ORDINALITY AS k(attnum, ord)
+        JOIN pg_attribute a ON a.attrelid = t.oid AND a.attnum = k.attnum
+        WHERE NOT ix.indisprimary AND ${schemaCondition('ns.nspname')}
+        ORDER BY ns.nspname, t.relname, i.relname, k.ord
+      `, params)
+    ]);
+    attachKeysAndIndexes(tableInfos, foreignKeys.rows, indexes.rows);
+
+    return tableInfos;
+  }
+
+  /**
+   * Values of every enum type, keyed by schema.type
+   */
+  private async getEnumTypes(connection: ClientBase): Promise<Map<string, string[]>> {
+    const enumTypes = new Map<string, string[]>();
+    try {
+      const result = await connection.query(`
+        SELECT
+          n.nspname as enum_schema,
+          t.typname as enum_name,
+          e.enumlabel as enum_value
+        FROM pg_enum e
+        JOIN pg_type t ON e.enumtypid = t.oid
+        JOIN pg_namespace n ON n.oid = t.typnamespace
+        ORDER BY n.nspname, t.typname, e.enumsortorder
+      `);
+      for (const row of result.rows) {
+        const key = `${row.enum_schema}.${row.enum_name}`;
+        enumTypes.set(key, [...(enumTypes.get(key) ?? []), row.enum_value]);
+      }
+    } catch (error) {
+      console.error('Failed to get enum values:', error);
+    }
+    return enumTypes;
+  }
+
+  sampleQuery(table: TableInfo, size: number): string {
+    const quote = (identifier: string) => `"${identifier.replace(/"/g, '""')}"`;
+    const tableName = table.schema ? `${quote(table.schema)}.${quote(table.name)}` : quote(table.name);
+    return `SELECT * FROM ${tableName} LIMIT ${Math.floor(size)}`;
+  }
+
+  extractQuery(llmOutput: string): string {
+    return SQLValidator.extractQuery(llmOutput);
+  }
+
+  validateQuery(query: string): void {
+    SQLValidator.assertReadOnly(query, this.type);
+  }
+
+  references(query: string): QueryReferences {
+    const { tables, columns, rows } = SQLValidator.validate(query, this.type);
+    return { tables, columns, rows };
+  }
+
+  /**
+   * Read-only transaction, statement_timeout, rows fetched from a cursor
+   */
+  async execute(connection: ClientBase, query: string, limits: QueryLimits): Promise<any[]> {
+    await connection.query('BEGIN READ ONLY');
+    try {
+      await connection.query(`SET LOCAL statement_timeout = ${Math.floor(limits.timeoutMs)}`);
+      await connection.query(`DECLARE edarah_query NO SCROLL CURSOR FOR ${query}`);
+      const result = await connection.query(`FETCH FORWARD ${Math.floor(limits.maxRows) + 1} FROM edarah_query`);
+      return result.rows;
+    } finally {
+      await connection.query('ROLLBACK');
+    }
+  }
+
+  describeColumnType(type: string): string {
+    if (type === 'USER-DEFINED') {
+      // Temporarily mark enum columns as problematic to avoid them in queries
+      return 'ENUM (avoid using this column in WHERE clauses for now)';
+    } else if (type.includes('timestamp')) {
+      return 'TIMESTAMP';
+    } else if (type === 'bigint') {
+      return 'BIGINT';
+    }
+    return type;
+  }
+
+  formatTableName(name: string, schema?: string): string {
+    // Unquoted identifiers are folded to lower case
+    const quote = (identifier: string) => (/[A-Z]/.test(identifier) ? `"${identifier}"` : identifier);
+    return schema ? `${quote(schema)}.${quote(name)}` : quote(name);
+  }
+}
@@ -0,0 +1,43 @@
+import { DataSourceConnector } from './connector';
+
+export class ConnectorRegistry {
+  private static connectors = new Map<string, DataSourceConnector>();
+
+  /**
+   * Register a connector under its type; a later registration replaces an earlier one
+   */
+  static register(connector: DataSourceConnector): void {
+    this.connectors.set(connector.type, connector);
+  }
+
+  static has(type: string): boolean {
+    return this.connectors.has(type);
+  }
+
+  /**
+   * Get the connector of a database type
+   */
+  static get(type: string): DataSourceConnector {
+    const connector = this.connectors.get(type);
+    if (!connector) {
+      throw new Error(`Unsupported database type: ${type}`);
+    }
+    return connector;
+  }
+
+  /**
+   * Find the connector for a connection string, in registration order
+   */
+  static detect(connectionString: string): DataSourceConnector {
+    for (const connector of this.connectors.values()) {
+      if (connector.canHandle(connectionString)) {
+        return connector;
+      }
+    }
+    throw new Error('Unsupported database type');
+  }
+
+  static types(): string[] {
+    return Array.from(this.connectors.keys());
+  }
+}
@@ -0,0 +1,155 @@
+import sqlite3 from 'sqlite3';
+import { open, Database } from 'sqlite';
+import { SQLValidator } from '../sqlValidator';
+import { DataSourceConnector, PooledConnection, QueryLimits, QueryReferences, TableInfo, attachKeysAndIndexes } from './connector';
+
+/**
+ * SQLite files are local, so the "pool" is the filename and a read-only handle is opened per use
+ */
+export class SQLiteConnector implements DataSourceConnector<Database, string> {
+  readonly type = 'sqlite';
+  readonly promptHints = {
+    dialect: 'SQLite',
+    rules: [
+      'Use only SQLite compatible syntax.',
+      'Use strftime() for date parts; SQLite has no EXTRACT, DATE_TRUNC or YEAR() functions.'
+    ]
+  };
+
+  canHandle(connectionString: string): boolean {
+    const lowerConnStr = connectionString.toLowerCase();
+    return lowerConnStr.includes('sqlite://') || lowerConnStr.endsWith('.db') || lowerConnStr.endsWith('.sqlite');
+  }
+
+  extractDatabaseName(connectionString: string): string {
+    const sqliteMatch = connectionString.match(/\/\/(.+)$/);
+    return sqliteMatch ? sqliteMatch[1].split('/').pop()?.replace('.db', '').replace('.sqlite', '') || 'unknown' : 'unknown';
+  }
+
+  async connect(connectionString: string): Promise<Database> {
+    return await open({
+      filename: connectionString.replace('sqlite://', ''),
+      driver: sqlite3.Database,
+      mode: sqlite3.OPEN_READONLY
+    });
+  }
+
+  async close(connection: Database): Promise<void> {
+    await connection.close();
+  }
+
+  async openPool(connectionString: string): Promise<string> {
+    return connectionString;
+  }
+
+  async acquire(pool: string): Promise<PooledConnection<Database>> {
+    const database = await this.connect(pool);
+    return {
+      connection: database,
+      release: async () => {
+        await database.close().catch(error => console.error('Error closing SQLite database:', error));
+      }
+    };
+  }
+
+  async ping(pool: string): Promise<void> {
+    const database = await this.connect(pool);
+    await database.get('SELECT 1').finally(() => database.close());
+  }
+
+  async closePool(): Promise<void> {
+    // Handles are closed on release
+  }
+
+  async introspect(connection: Database): Promise<TableInfo[]> {
+    const tablesQuery = "SELECT name FROM sqlite_master WHERE type='table'";
+    const tables = await connection.all(tablesQuery);
+
+    const tableInfos: TableInfo[] = [];
+
+    const foreignKeyRows: any[] = [];
+    const indexRows: any[] = [];
+
+    for (const table of tables) {
+      const tableName = this.quoteIdentifier(table.name);
+      const columnsQuery = `PRAGMA table_info(${tableName})`;
+      const columns = await connection.all(columnsQuery);
+
+      // One row per column; rows of a composite key share the id. A missing "to" means the referenced primary key.
+      const foreignKeys = await connection.all(`PRAGMA foreign_key_list(${tableName})`);
+      for (const fk of foreignKeys) {
+        foreignKeyRows.push({
+          table_name: table.name,
+          constraint_name: `fk_${table.name}_${fk.id}`,
+          column_name: fk.from,
+          referenced_table_name: fk.table,
+          referenced_column_name: fk.to ?? 'rowid'
+        });
+      }
+
+      const indexes = await connection.all(`PRAGMA index_list(${tableName})`);
+      for (const index of indexes) {
+        if (index.origin === 'pk') continue;
+        const indexColumns = await connection.all(`PRAGMA index_info(${this.quoteIdentifier(index.name)})`);
+        for (const indexColumn of indexColumns) {
+          indexRows.push({ table_name: table.name, index_name: index.name, column_name: indexColumn.name, is_unique: index.unique === 1 });
+        }
+      }
+
+      tableInfos.push({
+        name: table.name,
+        columns: columns.map((col: any) => ({
+          name: col.name,
+          type: col.type,
+          isNullable: col.notnull === 0,
+          isPrimaryKey: col.pk === 1,
+          defaultValue: col.dflt_value
+        }))
+      });
+    }
+
+    attachKeysAndIndexes(tableInfos, foreignKeyRows, indexRows);
+    return tableInfos;
+  }
+
+  private quoteIdentifier(name: string): string {
+    return `"${name.replace(/"/g, '""')}"`;
+  }
+
+  sampleQuery(table: TableInfo, size: number): string {
+    return `SELECT * FROM ${this.quoteIdentifier(table.name)} LIMIT ${Math.floor(size)}`;
+  }
+
+  extractQuery(llmOutput: string): string {
+    return SQLValidator.extractQuery(llmOutput);
+  }
+
+  validateQuery(query: string): void {
+    SQLValidator.assertReadOnly(query, this.type);
+  }
+
+  references(query: string): QueryReferences {
+    const { tables, columns, rows } = SQLValidator.validate(query, this.type);
+    return { tables, columns, rows };
+  }
+
+  /**
+   * Read-only handle, interrupted after the timeout, rows stepped one at a time
+   */
+  async execute(connection: Database, query: string, limits: QueryLimits): Promise<any[]> {
+    const timer = setTimeout(() => connection.getDatabaseInstance().interrupt(), limits.timeoutMs);
+    const statement = await connection.prepare(query);
+    try {
+      const rows: any[] = [];
+      while (rows.length <= limits.maxRows) {
+        const row = await statement.get();
+        if (row === undefined) break;
+        rows.push(row);
+      }
+      return rows;
+    } finally {
+      clearTimeout(timer);
+      await statement.finalize();
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import sql from 'mssql';
+import { SQLValidator } from '../sqlValidator';
+import { DataSourceConnector, PoolOptions, PooledConnection, QueryLimits, QueryReferences, SchemaFilter, TableInfo, attachKeysAndIndexes, groupColumnsByTable } from './connector';
+
+export class SQLServerConnector implements DataSourceConnector<sql.ConnectionPool, sql.ConnectionPool> {
+  readonly type = 'sqlserver';
+  readonly promptHints = {
+    dialect: 'SQL Server (T-SQL)',
+    rules: [
+      'Use only SQL Server (T-SQL) compatible syntax.',
+      'Use TOP instead of LIMIT.',
+      'Quote table and column names with square brackets when needed, not double quotes or backticks.'
+    ]
+  };
+
+  canHandle(connectionString: string): boolean {
+    const lowerConnStr = connectionString.toLowerCase();
+    return lowerConnStr.includes('mssql://') || lowerConnStr.includes('sqlserver://');
+  }
+
+  extractDatabaseName(connectionString: string): string {
+    const sqlMatch = connectionString.match(/Database=([^;]+)/);
+    return sqlMatch ? sqlMatch[1] : 'unknown';
+  }
+
+  async connect(connectionString: string): Promise<sql.ConnectionPool> {
+    const sqlPool = new sql.ConnectionPool(sql.ConnectionPool.parseConnectionString(connectionString));
+    return await sqlPool.connect();
+  }
+
+  async close(connection: sql.ConnectionPool): Promise<void> {
+    await connection.close();
+  }
+
+  async openPool(connectionString: string, options: PoolOptions): Promise<sql.ConnectionPool> {
+    const pool = new sql.ConnectionPool({
+      ...sql.ConnectionPool.parseConnectionString(connectionString),
+      pool: { min: 0, max: options.max, idleTimeoutMillis: options.idleTimeoutMs }
+    });
+    pool.on('error', error => console.error('SQL Server pool error:', error.message));
+    return await pool.connect();
+  }
+
+  async acquire(pool: sql.ConnectionPool): Promise<PooledConnection<sql.ConnectionPool>> {
+    // mssql pools internally; requests borrow a connection each
+    return { connection: pool, release: async () => undefined };
+  }
+
+  async ping(pool: sql.ConnectionPool): Promise<void> {
+    await pool.request().query('SELECT 1');
+  }
+
+  async closePool(pool: sql.ConnectionPool): Promise<void> {
+    await pool.close();
+  }
+
+  /**
+   * Tables of every schema passing the filter
+   */
+  async introspect(connection: sql.ConnectionPool, schemas: SchemaFilter): Promise<TableInfo[]> {
+    const columnsRequest = connection.request();
+    const query = `
+      SELECT
+        t.table_schema,
+        t.table_name,
+        c.column_name,
+        c.data_type,
+        c.is_nullable,
+        CASE WHEN pk.column_name IS NOT NULL THEN 'YES' ELSE 'NO' END as is_primary_key,
+        c.column_default,
+        CAST(cd.value AS NVARCHAR(4000)) as column_comment,
+        CAST(td.value AS NVARCHAR(4000)) as table_comment
+      FROM information_schema.tables t
+      JOIN information_schema.columns c ON t.table_schema = c.table_schema AND t.table_name = c.table_name
+      LEFT JOIN (
+        SELECT kcu.table_schema, kcu.table_name, kcu.column_name
+        FROM information_schema.table_constraints tc
+        JOIN information_schema.key_column_usage kcu
+          ON tc.constraint_schema = kcu.constraint_schema AND tc.constraint_name = kcu.constraint_name
+        WHERE tc.constraint_type = 'PRIMARY KEY'
+      ) pk ON t.table_schema = pk.table_schema AND t.table_name = pk.table_name AND c.column_name = pk.column_name
+      -- Comments are MS_Description extended properties
+      LEFT JOIN sys.extended_properties td
+        ON td.class = 1 AND td.name = 'MS_Description' AND td.minor_id = 0
+        AND td.major_id = OBJECT_ID(QUOTENAME(t.table_schema) + '.' + QUOTENAME(t.table_name))
+      LEFT JOIN sys.extended_properties cd
+        ON cd.class = 1 AND cd.name = 'MS_Description'
+        AND cd.major_id = OBJECT_ID(QUOTENAME(c.table_schema) + '.' + QUOTENAME(c.table_name))
+        AND cd.minor_id = COLUMNPROPERTY(cd.major_id, c.column_name, 'ColumnId')
+      WHERE t.table_type = 'BASE TABLE' AND ${this.schemaCondition(columnsRequest, 't.table_schema', schemas)}
+      ORDER BY t.table_schema, t.table_name, c.ordinal_position
+    `;
+
+    const result = await columnsRequest.query(query);
+    const tableInfos = groupColumnsByTable(result.recordset);
+
+    const foreignKeysRequest = connection.request();
+    const foreignKeys = await foreignKeysRequest.query(`
+      SELECT
+        SCHEMA_NAME(tp.schema_id) as table_schema,
+        tp.name as table_name,
+        fk.name as constraint_name,
+        cp.name as column_name,
+        SCHEMA_NAME(tr.schema_id) as referenced_table_schema,
+        tr.name as referenced_table_name,
+        cr.name as referenced_column_name
+      FROM sys.foreign_keys fk
+      JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+      JOIN sys.tables tp ON tp.object_id = fkc.parent_object_id
+      JOIN sys.columns cp ON cp.object_id = fkc.parent_object_id AND cp.column_id = fkc.parent_column_id
+      JOIN sys.tables tr ON tr.object_id = fkc.referenced_object_id
+      JOIN sys.columns cr ON cr.object_id = fkc.referenced_object_id AND cr.column_id = fkc.referenced_column_id
+      WHERE ${this.schemaCondition(foreignKeysRequest, 'SCHEMA_NAME(tp.schema_id)', schemas)}
+      ORDER BY table_schema, tp.name, fk.name, fkc.constraint_column_id
+    `);
+    const indexesRequest = connection.request();
+    const indexes = await indexesRequest.query(`
+      SELECT
+        SCHEMA_NAME(t.schema_id) as table_schema,
+        t.name as table_name,
+        i.name as index_name,
+        c.name as column_name,
+        i.is_unique
+      FROM sys.indexes i
+      JOIN sys.tables t ON t.object_id = i.object_id
+      JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+      JOIN sys.columns c ON c.object_id = ic.object_id AND c.column_id = ic.column_id
+      WHERE i.is_primary_key = 0 AND i.name IS NOT NULL AND ic.is_included_column = 0
+        AND ${this.schemaCondition(indexesRequest, 'SCHEMA_NAME(t.schema_id)', schemas)}
+      ORDER BY table_schema, t.name, i.name, ic.key_ordinal
+    `);
+    attachKeysAndIndexes(tableInfos, foreignKeys.recordset, indexes.recordset);
+
+    return tableInfos;
+  }
+
+  /**
+   * SQL condition for the schema filter, with the schema names bound as parameters of the request
+   */
+  private schemaCondition(request: sql.Request, column: string, schemas: SchemaFilter): string {
+    const bind = (prefix: string, names: string[]) => names.map((name, index) => {
+      request.input(`${prefix}${index}`, sql.NVarChar, name);
+      return `@${prefix}${index}`;
+    }).join(', ');
+
+    const conditions = [`${column} NOT IN ('sys', 'INFORMATION_SCHEMA')`];
+    if (schemas.include.length > 0) {
+      conditions.push(`${column} IN (${bind('include_schema', schemas.include)})`);
+    }
+    if (schemas.exclude.length > 0) {
+      conditions.push(`${column} NOT IN (${bind('exclude_schema', schemas.exclude)})`);
+    }
+    return conditions.join(' AND ');
+  }
+
+  formatTableName(name: string, schema?: string): string {
+    const quote = (identifier: string) => (/^[A-Za-z_]\w*$/.test(identifier) ? identifier : `[${identifier.replace(/]/g, ']]')}]`);
+    return schema ? `${quote(schema)}.${quote(name)}` : quote(name);
+  }
+
+  sampleQuery(table: TableInfo, size: number): string {
+    const quote = (identifier: string) => `[${identifier.replace(/]/g, ']]')}]`;
+    const tableName = table.schema ? `${quote(table.schema)}.${quote(table.name)}` : quote(table.name);
+    return `SELECT TOP ${Math.floor(size)} * FROM ${tableName}`;
+  }
+
+  extractQuery(llmOutput: string): string {
+    return SQLValidator.extractQuery(llmOutput);
+  }
+
+  validateQuery(query: string): void {
+    SQLValidator.assertReadOnly(query, this.type);
+  }
+
+  references(query: string): QueryReferences {
+    const { tables, columns, rows } = SQLValidator.validate(query, this.type);
+    return { tables, columns, rows };
+  }
+
+  /**
+   * Transaction that is always rolled back, request cancelled after the timeout, SET ROWCOUNT
+   */
+  async execute(connection: sql.ConnectionPool, query: string, limits: QueryLimits): Promise<any[]> {
+    const transaction = new sql.Transaction(connection);
+    await transaction.begin();
+    const request = new sql.Request(transaction);
+    const timer = setTimeout(() => request.cancel(), limits.timeoutMs);
+    try {
+      const result = await request.query(`SET ROWCOUNT ${Math.floor(limits.maxRows) + 1};\n${query}`);
+      return result.recordset ?? [];
+    } finally {
+      clearTimeout(timer);
+      // ROWCOUNT is session state and pooled connections are reused
+      await new sql.Request(transaction).batch('SET ROWCOUNT 0').catch(() => undefined);
+      await transaction.rollback().catch(error => console.error('Error rolling back SQL Server transaction:', error));
+    }
+  }
+}
@@ -1,6 +1,11 @@
 import { DatabaseConnectionService } from './databaseConnection';
-import { PROMPT_TEMPLATES, executeSQLGeneration, executeDashboardAnalysis } from '../configs/langchain';
+import { RAGService } from './ragService';
+import { SchemaVisibility } from './schemaVisibility';
+import { QueryAttempt, QueryEngine, QueryEngineError } from './queryEngine';
+import { ConnectorRegistry, formatDialectRules } from './connectors';
+import { PROMPT_TEMPLATES, executeDashboardAnalysis } from '../configs/langchain';
 import { prisma } from '../index';
+import { TokenQuotaExceededError } from './tokenUsage';
 
 interface DashboardAnalysisParams {
   userId: string;
@@ -20,6 +25,7 @@ interface AnalysisResult {
     hasReviewData: boolean;
   };
   sqlQuery?: string;
+  queryAttempts?: QueryAttempt[];
   dashboardData?: any;
   rawData?: any[];
   error?: string;
@@ -41,25 +47,13 @@ export async function getUserDatabase(userId: string, databaseId?: string) {
     id: userDatabase.id.toString(),
     name: userDatabase.database_name || 'Unknown',
     type: userDatabase.database_type,
-    connectionString: userDatabase.connection_string
+    connectionString: userDatabase.connection_string,
+    schemas: { include: userDatabase.included_schemas, exclude: userDatabase.excluded_schemas },
+    profileColumns: userDatabase.profiling_enabled,
+    visibility: SchemaVisibility.fromUserDatabase(userDatabase)
   };
 }
 
-function cleanSQLQuery(sqlQuery: string): string {
-  // Remove markdown code blocks (```sql ... ```)
-  let cleaned = sqlQuery.replace(/```sql\s*/gi, '').replace(/```\s*$/gi, '');
-  
-  // Remove any leading/trailing whitespace
-  cleaned = cleaned.trim();
-  
-  // Remove any remaining markdown formatting
-  cleaned = cleaned.replace(/^`+/, '').replace(/`+$/, '');
-  
-  console.log(`[Dashboard Analysis] Cleaned SQL query:`, cleaned.substring(0, 200) + '...');
-  
-  return cleaned;
-}
-
 function analyzeDataSufficiency(data: any[]): { sufficient: boolean; reason?: string; summary: any } {
   console.log(`[Dashboard Analysis] Analyzing data sufficiency for ${data.length} records`);
   
@@ -153,9 +147,10 @@ export async function getDashboardAnalysis({ userId, databaseId }: DashboardAnal
     const databaseInfo = await getUserDatabase(userId, databaseId);
     console.log(`[Dashboard Analysis] Connected to database: ${databaseInfo.name} (${databaseInfo.type})`);
 
-    // 2. Get schema
-    const schema = await DatabaseConnectionService.getSchema(databaseInfo.connectionString, databaseInfo.type);
+    // 2. Get schema (cached, kept current by the drift job)
+    const schema = await RAGService.getSchema(databaseInfo);
     console.log(`[Dashboard Analysis] Schema retrieved with ${schema.tables.length} tables`);
+    const queryLimits = await DatabaseConnectionService.getQueryLimits(userId);
 
     // 3. Use LLM to generate the SQL query for analytics
     const analyticsQuestion = `Generate a SQL query to extract comprehensive product analytics data for a dashboard. The query should:
@@ -165,93 +160,76 @@ export async function getDashboardAnalysis({ userId, databaseId }: DashboardAnal
 3. Calculate total sales, revenue, and profit using SUM() aggregations
 4. Include inventory stock levels
 5. Include review counts and average ratings
-6. Use proper GROUP BY clauses for MySQL ONLY_FULL_GROUP_BY mode
+6. Use proper GROUP BY clauses
 7. Join all relevant tables: products, categories, suppliers, order_items, orders, inventory, product_reviews
 8. Filter for active products only
 9. Order by total sales and profit for analysis
 
-IMPORTANT: All non-aggregated columns in SELECT must be included in GROUP BY clause for MySQL compatibility.`;
+IMPORTANT: All non-aggregated columns in SELECT must be included in the GROUP BY clause.`;
+    const connector = ConnectorRegistry.get(schema.databaseType);
     const sqlPrompt = PROMPT_TEMPLATES.formatSQLPrompt({
-      schema: schema.tables.map(table => {
-        const cols = table.columns.map(col => `${col.name} (${col.type})`).join(', ');
-        return `Table: ${table.name}\nColumns: ${cols}`;
-      }).join('\n\n'),
-      question: analyticsQuestion,
-      databaseType: schema.databaseType
-    });
-    
-    console.log(`[Dashboard Analysis] Generating SQL query...`);
-    const sqlResult = await executeSQLGeneration({
-      schema: sqlPrompt,
+      schema: RAGService.formatSchemaForPrompt(schema, databaseInfo.visibility),
       question: analyticsQuestion,
       databaseType: schema.databaseType
-    });
-    const rawSqlQuery = typeof sqlResult === 'string' ? sqlResult.trim() : sqlResult;
-    console.log(`[Dashboard Analysis] Raw SQL query:`, rawSqlQuery.substring(0, 200) + '...');
-    
-    // Clean the SQL query to remove markdown formatting
-    const sqlQuery = cleanSQLQuery(rawSqlQuery);
+    }) + `${formatDialectRules(connector.promptHints)}\n- Do not include explanations or comments, only the query.${QueryEngine.categoricalValuesRule(schema)}`;
+
+    // 4. Generate and execute the query, with a fixed product analytics query as the fallback
+    console.log(`[Dashboard Analysis] Generating and executing SQL query...`);
+    const fallbackQuery = `
+      SELECT 
+        p.product_id,
+        p.name AS product_name,
+        p.sku,
+        p.price,
+        p.cost_price,
+        c.name AS category_name,
+        s.name AS supplier_name,
+        COALESCE(SUM(oi.quantity), 0) AS total_sales,
+        COALESCE(SUM(oi.total_price), 0) AS total_revenue,
+        COALESCE(SUM(oi.total_price) - SUM(oi.quantity * p.cost_price), 0) AS total_profit,
+        i.quantity_in_stock,
+        COUNT(r.review_id) AS total_reviews,
+        AVG(r.rating) AS average_rating
+      FROM products p
+      LEFT JOIN product_categories pc ON p.product_id = pc.product_id
+      LEFT JOIN categories c ON pc.category_id = c.category_id
+      LEFT JOIN suppliers s ON p.supplier_id = s.supplier_id
+      LEFT JOIN order_items oi ON p.product_id = oi.product_id
+      LEFT JOIN inventory i ON p.product_id = i.product_id
+      LEFT JOIN product_reviews r ON p.product_id = r.product_id
+      WHERE p.is_active = 1
+      GROUP BY p.product_id, p.name, p.sku, p.price, p.cost_price, c.name, s.name, i.quantity_in_stock
+      ORDER BY total_sales DESC, total_profit DESC
+    `;
 
-    // 4. Execute the AI-generated SQL query
-    let queryResult: any[] = [];
+    let queryResult: any[];
+    let sqlQuery: string;
+    let queryAttempts: QueryAttempt[];
     try {
-      console.log(`[Dashboard Analysis] Executing SQL query...`);
-      queryResult = await DatabaseConnectionService.executeQuery(
-        databaseInfo.connectionString,
-        databaseInfo.type,
-        sqlQuery
-      );
-      console.log(`[Dashboard Analysis] Query executed successfully, returned ${queryResult.length} rows`);
-    } catch (e) {
-      console.error(`[Dashboard Analysis] SQL execution failed:`, e);
-      
-      // Try a fallback query if the AI-generated query fails
-      console.log(`[Dashboard Analysis] Trying fallback query...`);
-      const fallbackQuery = `
-        SELECT 
-          p.product_id,
-          p.name AS product_name,
-          p.sku,
-          p.price,
-          p.cost_price,
-          c.name AS category_name,
-          s.name AS supplier_name,
-          COALESCE(SUM(oi.quantity), 0) AS total_sales,
-          COALESCE(SUM(oi.total_price), 0) AS total_revenue,
-          COALESCE(SUM(oi.total_price) - SUM(oi.quantity * p.cost_price), 0) AS total_profit,
-          i.quantity_in_stock,
-          COUNT(r.review_id) AS total_reviews,
-          AVG(r.rating) AS average_rating
-        FROM products p
-        LEFT JOIN product_categories pc ON p.product_id = pc.product_id
-        LEFT JOIN categories c ON pc.category_id = c.category_id
-        LEFT JOIN suppliers s ON p.supplier_id = s.supplier_id
-        LEFT JOIN order_items oi ON p.product_id = oi.product_id
-        LEFT JOIN inventory i ON p.product_id = i.product_id
-        LEFT JOIN product_reviews r ON p.product_id = r.product_id
-        WHERE p.is_active = 1
-        GROUP BY p.product_id, p.name, p.sku, p.price, p.cost_price, c.name, s.name, i.quantity_in_stock
-        ORDER BY total_sales DESC, total_profit DESC
-      `;
-      
-      try {
-        queryResult = await DatabaseConnectionService.executeQuery(
-          databaseInfo.connectionString,
-          databaseInfo.type,
-          fallbackQuery
-        );
-        console.log(`[Dashboard Analysis] Fallback query executed successfully, returned ${queryResult.length} rows`);
-      } catch (fallbackError) {
-        console.error(`[Dashboard Analysis] Fallback query also failed:`, fallbackError);
-        return { 
-          insufficientData: true, 
-          reason: `SQL execution failed: ${e instanceof Error ? e.message : 'Unknown error'}. Fallback query also failed: ${fallbackError instanceof Error ? fallbackError.message : 'Unknown error'}`,
-          error: 'SQL execution failed', 
-          sqlQuery, 
-          rawData: [],
-          dataSummary: { totalProducts: 0, totalCategories: 0, totalSuppliers: 0, totalSales: 0, hasStockData: false, hasExpiryData: false, hasReviewData: false }
-        };
-      }
+      const execution = await QueryEngine.run({
+        userId,
+        target: databaseInfo,
+        schema,
+        prompt: sqlPrompt,
+        limits: queryLimits,
+        fallbackQueries: [fallbackQuery]
+      });
+      queryResult = execution.rows;
+      sqlQuery = execution.query;
+      queryAttempts = execution.attempts;
+      console.log(`[Dashboard Analysis] Query executed successfully${execution.fallbackUsed ? ' (fallback)' : ''}, returned ${queryResult.length} rows`);
+    } catch (error) {
+      if (!(error instanceof QueryEngineError)) throw error;
+      console.error(`[Dashboard Analysis] SQL execution failed:`, error.result.errors);
+      return { 
+        insufficientData: true, 
+        reason: `SQL execution failed: ${error.result.errors.join('. ')}`,
+        error: 'SQL execution failed', 
+        sqlQuery: error.result.query, 
+        queryAttempts: error.result.attempts,
+        rawData: [],
+        dataSummary: { totalProducts: 0, totalCategories: 0, totalSuppliers: 0, totalSales: 0, hasStockData: false, hasExpiryData: false, hasReviewData: false }
+      };
     }
 
     // 5. Analyze data sufficiency
@@ -263,6 +241,7 @@ IMPORTANT: All non-aggregated columns in SELECT must be included in GROUP BY cla
         insufficientData: true, 
         reason: sufficiencyAnalysis.reason,
         sqlQuery, 
+        queryAttempts,
         rawData: queryResult,
         dataSummary: sufficiencyAnalysis.summary
       };
@@ -274,7 +253,7 @@ IMPORTANT: All non-aggregated columns in SELECT must be included in GROUP BY cla
       data: JSON.stringify(queryResult),
       context: 'E-commerce dashboard analysis with focus on products, categories, suppliers, sales performance, and inventory management',
       chatHistory: ''
-    });
+    }, userId);
 
     console.log(`[Dashboard Analysis] Analysis completed successfully`);
 
@@ -292,11 +271,15 @@ IMPORTANT: All non-aggregated columns in SELECT must be included in GROUP BY cla
     return {
       insufficientData: false,
       sqlQuery,
+      queryAttempts,
       dashboardData: parsedAnalysis,
       rawData: queryResult,
       dataSummary: sufficiencyAnalysis.summary
     };
   } catch (error) {
+    if (error instanceof TokenQuotaExceededError) {
+      throw error;
+    }
     console.error(`[Dashboard Analysis] Unexpected error:`, error);
     return {
       insufficientData: true,
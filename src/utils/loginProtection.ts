@@ -0,0 +1,170 @@
+import { IRateLimiterOptions, RateLimiterAbstract, RateLimiterMemory, RateLimiterRedis, RateLimiterRes } from 'rate-limiter-flexible';
+import { prisma } from '../index';
+import { CacheStoreProvider } from './cacheStore';
+
+export type AuthAction = 'login' | 'register' | 'forgot_password' | 'reset_password' | 'verify_email' | 'resend_verification';
+
+export interface ThrottleResult {
+  allowed: boolean;
+  retryAfterSeconds?: number;
+}
+
+interface LockoutStep {
+  failures: number;       // Consecutive failed passwords that trigger the step
+  lockSeconds: number;
+}
+
+export class LoginProtectionService {
+  private static readonly FAILURE_WINDOW = 24 * 60 * 60; // Failed passwords are remembered for 24 hours
+
+  // Progressive lockout: every failure past the first step locks again, for longer as failures pile up
+  private static readonly LOCKOUT_STEPS: LockoutStep[] = [
+    { failures: 5, lockSeconds: 15 * 60 },
+    { failures: 10, lockSeconds: 60 * 60 },
+    { failures: 20, lockSeconds: 24 * 60 * 60 }
+  ];
+
+  // All attempts per IP, whatever the outcome
+  private static readonly IP_LIMITS: Record<AuthAction, IRateLimiterOptions> = {
+    login: { keyPrefix: 'login_ip', points: 20, duration: 15 * 60, blockDuration: 15 * 60 },
+    register: { keyPrefix: 'register_ip', points: 5, duration: 60 * 60, blockDuration: 60 * 60 },
+    forgot_password: { keyPrefix: 'forgot_password_ip', points: 5, duration: 60 * 60, blockDuration: 60 * 60 },
+    reset_password: { keyPrefix: 'reset_password_ip', points: 10, duration: 15 * 60, blockDuration: 15 * 60 },
+    verify_email: { keyPrefix: 'verify_email_ip', points: 10, duration: 15 * 60, blockDuration: 15 * 60 },
+    resend_verification: { keyPrefix: 'resend_verification_ip', points: 5, duration: 60 * 60, blockDuration: 60 * 60 }
+  };
+
+  // Failed passwords per email
+  private static readonly FAILED_LOGINS: IRateLimiterOptions = {
+    keyPrefix: 'login_fail_email',
+    points: 1000,
+    duration: LoginProtectionService.FAILURE_WINDOW
+  };
+
+  // Active lockouts per email, set with block()
+  private static readonly LOCKOUTS: IRateLimiterOptions = {
+    keyPrefix: 'login_lockout',
+    points: 1,
+    duration: 1
+  };
+
+  private static limiters = new Map<string, RateLimiterAbstract>();
+
+  /**
+   * Limiter counted in the shared backend when one is configured, so every instance sees the same attempts
+   * and lockouts, with a per-instance limiter while the backend is unreachable. Created on first use, once
+   * the environment is loaded.
+   */
+  private static getLimiter(options: IRateLimiterOptions): RateLimiterAbstract {
+    const key = options.keyPrefix!;
+    let limiter = this.limiters.get(key);
+    if (limiter) return limiter;
+
+    const redis = CacheStoreProvider.getRedisClient();
+    limiter = redis
+      ? new RateLimiterRedis({ ...options, storeClient: redis, insuranceLimiter: new RateLimiterMemory(options) })
+      : new RateLimiterMemory(options);
+    this.limiters.set(key, limiter);
+    return limiter;
+  }
+
+  private static normalizeEmail(email: string): string {
+    return email.toLowerCase().trim();
+  }
+
+  /**
+   * Consume one attempt from the IP limiter of an auth action
+   */
+  static async consumeIp(action: AuthAction, ip: string): Promise<ThrottleResult> {
+    try {
+      await this.getLimiter(this.IP_LIMITS[action]).consume(ip);
+      return { allowed: true };
+    } catch (error) {
+      if (error instanceof RateLimiterRes) {
+        return { allowed: false, retryAfterSeconds: Math.ceil(error.msBeforeNext / 1000) };
+      }
+      console.error('Auth rate limiter error:', error);
+      // Allow request on error (fail open), same as the RAG rate limiter
+      return { allowed: true };
+    }
+  }
+
+  /**
+   * Check whether logins for an email are locked
+   */
+  static async checkLockout(email: string): Promise<ThrottleResult> {
+    const lockouts = this.getLimiter(this.LOCKOUTS);
+    const result = await lockouts.get(this.normalizeEmail(email));
+    if (result && result.consumedPoints > lockouts.points) {
+      return { allowed: false, retryAfterSeconds: Math.ceil(result.msBeforeNext / 1000) };
+    }
+    return { allowed: true };
+  }
+
+  /**
+   * Count a failed password and lock the email once a lockout step is reached
+   */
+  static async recordFailedLogin(email: string, ipAddress?: string): Promise<void> {
+    const key = this.normalizeEmail(email);
+
+    try {
+      const result = await this.getLimiter(this.FAILED_LOGINS).consume(key);
+      const failures = result.consumedPoints;
+      const step = [...this.LOCKOUT_STEPS].reverse().find(lockoutStep => failures >= lockoutStep.failures);
+      if (!step) return;
+
+      await this.getLimiter(this.LOCKOUTS).block(key, step.lockSeconds);
+
+      const user = await prisma.users.findFirst({ where: { email: key }, select: { id: true } });
+      await prisma.login_lockouts.create({
+        data: {
+          email: key,
+          user_id: user?.id,
+          ip_address: ipAddress,
+          failed_attempts: failures,
+          locked_until: new Date(Date.now() + step.lockSeconds * 1000)
+        }
+      });
+      console.warn(`🔒 Login locked for ${key} for ${step.lockSeconds}s after ${failures} failed attempts`);
+    } catch (error) {
+      console.error('Error recording failed login:', error);
+    }
+  }
+
+  /**
+   * Forget failed passwords of an email after a successful login
+   */
+  static async recordSuccessfulLogin(email: string): Promise<void> {
+    await this.getLimiter(this.FAILED_LOGINS).delete(this.normalizeEmail(email));
+  }
+
+  /**
+   * Lift the lockout of an email (support staff)
+   */
+  static async unlock(email: string, unlockedBy: string | bigint): Promise<number> {
+    const key = this.normalizeEmail(email);
+
+    await this.getLimiter(this.LOCKOUTS).delete(key);
+    await this.getLimiter(this.FAILED_LOGINS).delete(key);
+
+    const updated = await prisma.login_lockouts.updateMany({
+      where: { email: key, unlocked_at: null, locked_until: { gt: new Date() } },
+      data: { unlocked_at: new Date(), unlocked_by: BigInt(unlockedBy) }
+    });
+    return updated.count;
+  }
+
+  /**
+   * Recorded lockout events, newest first
+   */
+  static async listLockouts(filter: { email?: string; activeOnly?: boolean; limit?: number } = {}) {
+    return await prisma.login_lockouts.findMany({
+      where: {
+        ...(filter.email && { email: this.normalizeEmail(filter.email) }),
+        ...(filter.activeOnly && { unlocked_at: null, locked_until: { gt: new Date() } })
+      },
+      orderBy: { created_at: 'desc' },
+      take: filter.limit ?? 100
+    });
+  }
+}
@@ -0,0 +1,162 @@
+import fs from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers mail; implement this to plug in an SMTP or API based provider
+ */
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Logs every message to the console (default for local development)
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+/**
+ * Writes every message as a JSON file into a directory (local development and tests)
+ */
+export class FileTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^a-zA-Z0-9@._-]/g, '_')}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+}
+
+/**
+ * Sends every message through an SMTP server (production)
+ */
+export class SmtpTransport implements MailTransport {
+  private readonly transporter: Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }, private readonly from: string) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.pass } : undefined
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
+
+export class Mailer {
+  private static transport: MailTransport | null = null;
+
+  /**
+   * Create the transport selected by MAIL_TRANSPORT (smtp | console | file). Console and file log or store
+   * the tokens of the messages, so production requires SMTP
+   */
+  private static createTransport(): MailTransport {
+    if (process.env.MAIL_TRANSPORT === 'smtp') {
+      const host = process.env.SMTP_HOST;
+      if (!host) {
+        throw new Error('MAIL_TRANSPORT=smtp requires SMTP_HOST');
+      }
+      return new SmtpTransport(
+        {
+          host,
+          port: Number(process.env.SMTP_PORT) || 587,
+          secure: process.env.SMTP_SECURE === 'true',
+          user: process.env.SMTP_USER,
+          pass: process.env.SMTP_PASS
+        },
+        process.env.MAIL_FROM || `Edarah <no-reply@${host}>`
+      );
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('No mail transport configured: set MAIL_TRANSPORT=smtp and SMTP_HOST in production');
+    }
+
+    switch (process.env.MAIL_TRANSPORT) {
+      case 'file':
+        return new FileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), 'tmp', 'mail'));
+      case 'console':
+      case undefined:
+      case '':
+        return new ConsoleTransport();
+      default:
+        console.warn(`Unknown MAIL_TRANSPORT "${process.env.MAIL_TRANSPORT}", falling back to console`);
+        return new ConsoleTransport();
+    }
+  }
+
+  /**
+   * Create the transport at startup, so that a missing mail configuration stops the server early
+   */
+  static ensureConfigured(): void {
+    if (!this.transport) {
+      this.transport = this.createTransport();
+    }
+  }
+
+  /**
+   * Replace the transport (custom providers, tests)
+   */
+  static setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  static async send(message: MailMessage): Promise<void> {
+    if (!this.transport) {
+      this.transport = this.createTransport();
+    }
+    await this.transport.send(message);
+  }
+
+  /**
+   * Link into the frontend, carrying a token when given
+   */
+  private static buildLink(route: string, token?: string): string {
+    const baseUrl = (process.env.APP_URL || 'http://localhost:5173').replace(/\/$/, '');
+    return token ? `${baseUrl}/${route}?token=${encodeURIComponent(token)}` : `${baseUrl}/${route}`;
+  }
+
+  static async sendEmailVerification(to: string, firstName: string, token: string, expiresInHours: number): Promise<void> {
+    const link = this.buildLink('verify-email', token);
+    await this.send({
+      to,
+      subject: 'Verify your Edarah email address',
+      text: `Hi ${firstName},\n\nPlease verify your email address by opening this link:\n${link}\n\nThe link expires in ${expiresInHours} hours.`
+    });
+  }
+
+  static async sendAccountExists(to: string, firstName: string): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your Edarah account',
+      text: `Hi ${firstName},\n\nSomeone tried to register a new Edarah account with this email address, which already has an account. If it was you, log in or reset your password at ${this.buildLink('forgot-password')}. Otherwise you can ignore this email.`
+    });
+  }
+
+  static async sendPasswordReset(to: string, firstName: string, token: string, expiresInMinutes: number): Promise<void> {
+    const link = this.buildLink('reset-password', token);
+    await this.send({
+      to,
+      subject: 'Reset your Edarah password',
+      text: `Hi ${firstName},\n\nWe received a request to reset your password. Open this link to choose a new one:\n${link}\n\nThe link expires in ${expiresInMinutes} minutes. If you did not request this, you can ignore this email.`
+    });
+  }
+}
@@ -0,0 +1,69 @@
+import crypto from "crypto";
+import { paymobConfig } from "../configs/paymob";
+
+// Paymob signs transaction callbacks with HMAC-SHA512 over these fields, in this exact order
+const TRANSACTION_HMAC_FIELDS = [
+  "amount_cents",
+  "created_at",
+  "currency",
+  "error_occured",
+  "has_parent_transaction",
+  "id",
+  "integration_id",
+  "is_3d_secure",
+  "is_auth",
+  "is_capture",
+  "is_refunded",
+  "is_standalone_payment",
+  "is_voided",
+  "order.id",
+  "owner",
+  "pending",
+  "source_data.pan",
+  "source_data.sub_type",
+  "source_data.type",
+  "success",
+];
+
+const getField = (obj: any, path: string): string => {
+  const value = path.split(".").reduce((current, key) => (current == null ? undefined : current[key]), obj);
+  if (value === undefined || value === null) return "";
+  return String(value);
+};
+
+/**
+ * Build the string Paymob hashes for a transaction callback
+ */
+export const buildTransactionHmacString = (transaction: any): string => {
+  return TRANSACTION_HMAC_FIELDS.map((field) => getField(transaction, field)).join("");
+};
+
+/**
+ * Calculate the HMAC Paymob would send for a transaction callback
+ */
+export const calculateTransactionHmac = (transaction: any, secret: string): string => {
+  return crypto
+    .createHmac("sha512", secret)
+    .update(buildTransactionHmacString(transaction))
+    .digest("hex");
+};
+
+/**
+ * Verify the HMAC received with a transaction callback
+ */
+export const verifyTransactionHmac = (
+  transaction: any,
+  hmac: string | undefined,
+  secret: string = paymobConfig.hmacSecret
+): boolean => {
+  if (!secret) {
+    console.error("❌ HMAC secret not configured");
+    return false;
+  }
+  if (!transaction || !hmac) return false;
+
+  const calculated = Buffer.from(calculateTransactionHmac(transaction, secret), "hex");
+  const received = Buffer.from(hmac.toLowerCase(), "hex");
+
+  return calculated.length === received.length && crypto.timingSafeEqual(calculated, received);
+};
@@ -0,0 +1,300 @@
+import { openAIQueryLLM } from '../configs/langchain';
+import { ConnectorRegistry, DataSourceConnector, TableInfo, formatDialectRules, qualifiedTableName } from './connectors';
+import { DatabaseConnectionService, DatabaseSchema, DatabaseTarget, QueryLimits } from './databaseConnection';
+import { SchemaVisibility } from './schemaVisibility';
+import { UnsafeQueryError } from './sqlValidator';
+import { TokenQuotaExceededError } from './tokenUsage';
+
+export type QueryAttemptStage = 'cached' | 'generated' | 'repaired' | 'retried' | 'fallback';
+
+// Where an attempt failed: the model call, the read-only/visibility checks, the schema check or the database
+export type QueryErrorKind = 'generation' | 'validation' | 'schema' | 'execution';
+
+export interface QueryAttempt {
+  stage: QueryAttemptStage;
+  query: string;
+  rowCount?: number;          // Set when the query ran
+  error?: string;             // Set when it failed
+  errorKind?: QueryErrorKind;
+  durationMs: number;
+}
+
+export interface QueryEngineRequest {
+  userId: string;
+  target: DatabaseTarget;
+  schema: DatabaseSchema;         // Cached schema; generated queries are checked against it before they run
+  prompt: string;                 // Complete generation prompt, schema included
+  limits: QueryLimits;
+  maxAttempts?: number;           // Generated queries at most; QUERY_MAX_ATTEMPTS by default
+  cachedQuery?: string;           // Query that answered the question before; generation starts only when it fails
+  retryOnEmpty?: boolean;         // Ask the model to revisit its filters once when the query returns nothing
+  fallbackQueries?: string[];     // Run in order when no generated query runs
+}
+
+export interface QueryEngineResult {
+  rows: any[];
+  query: string;                  // The query the rows come from
+  truncated: boolean;
+  rowLimit: number;
+  attempts: QueryAttempt[];
+  errors: string[];
+  fallbackUsed: boolean;
+}
+
+/**
+ * Thrown when no attempt produced rows; the attempts made are on the result
+ */
+export class QueryEngineError extends Error {
+  result: QueryEngineResult;
+
+  constructor(result: QueryEngineResult) {
+    super(result.errors[result.errors.length - 1] ?? 'Query failed');
+    this.name = 'QueryEngineError';
+    this.result = result;
+  }
+}
+
+/**
+ * A generated query that names tables or columns missing from the cached schema
+ */
+class SchemaMismatchError extends Error {
+  constructor(problems: string[]) {
+    super(problems.join('; '));
+    this.name = 'SchemaMismatchError';
+  }
+}
+
+interface Execution {
+  rows: any[];
+  query: string;
+  truncated: boolean;
+}
+
+/**
+ * Natural language to query agent shared by analysis, marketing plans, product analysis and the dashboard.
+ * Each step generates a query, checks it (read-only, visibility, tables and columns of the cached schema)
+ * and runs it; failures are fed back to the model with the dialect's rules until the attempt budget is spent,
+ * then the caller's fallback queries are tried. A cached query for the question is tried before any generation.
+ * Every attempt is recorded on the result.
+ */
+export class QueryEngine {
+  private static readonly MAX_LISTED_NAMES = 40;   // Tables or columns named in a schema error
+
+  // Read on first use, after .env is loaded
+  private static get MAX_ATTEMPTS(): number {
+    return Number(process.env.QUERY_MAX_ATTEMPTS) || 3;
+  }
+
+  /**
+   * Prompt rule for filter values: the profiled values when the schema has them, the order status defaults otherwise
+   */
+  static categoricalValuesRule(schema: DatabaseSchema): string {
+    if (schema.profiledAt) {
+      return '\n- Filter categorical columns (status, type, category, ...) only on the values listed for them in the schema; never invent values such as \'Completed\'.';
+    }
+    return "\n- For order status, use actual values from the database: 'delivered', 'shipped', 'processing', etc. Do NOT use 'Completed'. If unsure, use IN ('delivered', 'shipped', 'processing').";
+  }
+
+  static async run(request: QueryEngineRequest): Promise<QueryEngineResult> {
+    const connector = ConnectorRegistry.get(request.schema.databaseType);
+    // Check against what the model was shown, so errors never name hidden tables or masked columns
+    const visibleSchema = SchemaVisibility.applyToSchema(request.schema, request.target.visibility);
+    const budget = Math.max(1, request.maxAttempts ?? this.MAX_ATTEMPTS);
+
+    const result: QueryEngineResult = {
+      rows: [],
+      query: '',
+      truncated: false,
+      rowLimit: request.limits.maxRows,
+      attempts: [],
+      errors: [],
+      fallbackUsed: false
+    };
+
+    const checkQuery = (query: string) => {
+      connector.validateQuery(query);
+      SchemaVisibility.assertQueryAllowed(connector, query, request.target.visibility);
+      this.checkAgainstSchema(connector, query, visibleSchema);
+    };
+
+    let success: Execution | null = null;
+    let stage: QueryAttemptStage = 'generated';
+    let prompt = request.prompt;
+
+    // A cached query that still passes the checks and runs needs no generation
+    const cachedQuery = request.cachedQuery;
+    const cachedExecution = cachedQuery
+      ? (await this.attempt(request, result, 'cached', async () => cachedQuery, checkQuery)).execution
+      : undefined;
+    if (cachedExecution) {
+      success = cachedExecution;
+    }
+
+    for (let attemptNumber = 1; !cachedExecution && attemptNumber <= budget; attemptNumber++) {
+      const { attempt, execution } = await this.attempt(request, result, stage, () => this.generate(request, connector, prompt), checkQuery);
+
+      if (!execution) {
+        prompt = this.repairPrompt(request, connector, result.attempts);
+        stage = 'repaired';
+        continue;
+      }
+
+      // Keep the first result unless a later one finds rows
+      if (!success || execution.rows.length > 0) {
+        success = execution;
+      }
+      const retried = result.attempts.some(previous => previous.stage === 'retried');
+      if (execution.rows.length > 0 || !request.retryOnEmpty || retried) break;
+
+      // An empty result usually means a filter on a value that does not exist
+      prompt = this.emptyResultPrompt(request, connector, attempt.query);
+      stage = 'retried';
+    }
+
+    if (!success) {
+      for (const fallbackQuery of request.fallbackQueries ?? []) {
+        const { execution } = await this.attempt(request, result, 'fallback', async () => fallbackQuery);
+        if (execution) {
+          success = execution;
+          result.fallbackUsed = true;
+          break;
+        }
+      }
+    }
+
+    if (!success) {
+      result.query = result.attempts[result.attempts.length - 1]?.query ?? '';
+      throw new QueryEngineError(result);
+    }
+
+    result.rows = success.rows;
+    result.query = success.query;
+    result.truncated = success.truncated;
+    return result;
+  }
+
+  /**
+   * Attempts without their query text, for responses that do not show queries
+   */
+  static summarizeAttempts(attempts: QueryAttempt[]): Omit<QueryAttempt, 'query'>[] {
+    return attempts.map(({ query, ...summary }) => summary);
+  }
+
+  /**
+   * Produce, check and run one query, and record the attempt
+   */
+  private static async attempt(
+    request: QueryEngineRequest,
+    result: QueryEngineResult,
+    stage: QueryAttemptStage,
+    produceQuery: () => Promise<string>,
+    checkQuery?: (query: string) => void
+  ): Promise<{ attempt: QueryAttempt; execution?: Execution }> {
+    const startedAt = Date.now();
+    const attempt: QueryAttempt = { stage, query: '', durationMs: 0 };
+    result.attempts.push(attempt);
+
+    try {
+      attempt.query = await produceQuery();
+      checkQuery?.(attempt.query);
+
+      console.log(`Executing ${stage} query:`, attempt.query);
+      const execution = await DatabaseConnectionService.executeQueryWithMetadata(request.target, attempt.query, request.limits);
+
+      attempt.rowCount = execution.rows.length;
+      return { attempt, execution: { rows: execution.rows, query: attempt.query, truncated: execution.truncated } };
+    } catch (error) {
+      // Out of tokens: no further attempt can succeed
+      if (error instanceof TokenQuotaExceededError) {
+        throw error;
+      }
+      attempt.error = error instanceof Error ? error.message : String(error);
+      attempt.errorKind = error instanceof UnsafeQueryError
+        ? 'validation'
+        : error instanceof SchemaMismatchError
+          ? 'schema'
+          : attempt.query ? 'execution' : 'generation';
+      result.errors.push(attempt.error);
+      console.log(`${stage} query failed (${attempt.errorKind}):`, attempt.error);
+      return { attempt };
+    } finally {
+      attempt.durationMs = Date.now() - startedAt;
+    }
+  }
+
+  /**
+   * Tables the query reads must exist in the schema, and so must the columns it takes from them.
+   * Unqualified columns are not checked, since they may be output aliases.
+   */
+  private static checkAgainstSchema(connector: DataSourceConnector, query: string, schema: DatabaseSchema): void {
+    const { tables, columns } = connector.references(query);
+    const problems: string[] = [];
+
+    for (const table of tables) {
+      if (!this.findTable(schema, table)) {
+        const available = schema.tables.map(qualifiedTableName);
+        problems.push(`Table ${table} does not exist. Available tables: ${this.listNames(available)}`);
+      }
+    }
+
+    for (const reference of columns) {
+      if (!reference.table || reference.column === '*') continue;
+      // Owners that are not tables are aliases of subqueries or common table expressions
+      const owner = this.findTable(schema, reference.table);
+      if (!owner || owner.columns.some(column => column.name.toLowerCase() === reference.column.toLowerCase())) continue;
+
+      problems.push(`Column ${reference.column} does not exist in ${qualifiedTableName(owner)}. Its columns: ${this.listNames(owner.columns.map(column => column.name))}`);
+    }
+
+    if (problems.length > 0) {
+      throw new SchemaMismatchError(Array.from(new Set(problems)));
+    }
+  }
+
+  /**
+   * Table by name, qualified or not; a schema in the reference must match when the schema has them
+   */
+  private static findTable(schema: DatabaseSchema, reference: string): TableInfo | undefined {
+    const name = reference.toLowerCase();
+    const unqualified = name.split('.').pop()!;
+    const candidates = schema.tables.filter(table => table.name.toLowerCase() === unqualified || table.name.toLowerCase() === name);
+    if (name === unqualified) return candidates[0];
+
+    return candidates.find(table => !table.schema || qualifiedTableName(table).toLowerCase() === name || table.name.toLowerCase() === name);
+  }
+
+  private static listNames(names: string[]): string {
+    const listed = names.slice(0, this.MAX_LISTED_NAMES).join(', ');
+    return names.length > this.MAX_LISTED_NAMES ? `${listed}, ...` : listed;
+  }
+
+  /**
+   * The original prompt with every failed attempt and advice for the kind of failure
+   */
+  private static repairPrompt(request: QueryEngineRequest, connector: DataSourceConnector, attempts: QueryAttempt[]): string {
+    const failures = attempts
+      .filter(attempt => attempt.error)
+      .map((attempt, index) => `${index + 1}. ${attempt.query || '(no query)'}\n   Error: ${attempt.error}`)
+      .join('\n');
+
+    const advice: Record<QueryErrorKind, string> = {
+      generation: 'Return only the query.',
+      validation: 'Return exactly one read-only query, without any other statement.',
+      schema: 'Use only the tables and columns listed in the schema above, spelled exactly as listed.',
+      execution: 'Check every table alias and column against the schema above, define aliases before use, and join tables only on the listed foreign keys.'
+    };
+    const lastKind = attempts[attempts.length - 1]?.errorKind ?? 'execution';
+
+    return `${request.prompt}\n\nPrevious attempts failed on ${connector.promptHints.dialect}:\n${failures}\n\nWrite a corrected query. ${advice[lastKind]} Return only the corrected query.${formatDialectRules(connector.promptHints)}${this.categoricalValuesRule(request.schema)}`;
+  }
+
+  private static emptyResultPrompt(request: QueryEngineRequest, connector: DataSourceConnector, query: string): string {
+    return `${request.prompt}\n\nThis query ran on ${connector.promptHints.dialect} but returned no rows:\n${query}\n\nIf the question expects data, a filter is probably too strict or uses a value that does not exist. Compare every filter value with the schema above, match text case-insensitively, and widen date ranges only if the question allows it. Return only the corrected query.${formatDialectRules(connector.promptHints)}${this.categoricalValuesRule(request.schema)}`;
+  }
+
+  private static async generate(request: QueryEngineRequest, connector: DataSourceConnector, prompt: string): Promise<string> {
+    const answer = await openAIQueryLLM.call({ prompt, userId: request.userId });
+    // Take the statement out of the answer; it is checked before it runs
+    return connector.extractQuery(answer.text);
+  }
+}
@@ -8,15 +8,21 @@
 // 7. Prompt 2: Formats a prompt for business analysis (using question, query results, and context), sends it to OpenAI GPT-4.1-mini to generate insights
 // 8. Returns the SQL, insights, and recommendations to the user
 
-import { PROMPT_TEMPLATES, openAIQueryLLM, openAIAnalysisLLM, executeSQLGeneration, executeBusinessAnalysis, executeSchemaAnalysis, executeQuestionClassification, executeGeneralKnowledge } from '../configs/langchain';
-import { DatabaseConnectionService, DatabaseSchema } from './databaseConnection';
+import { PROMPT_TEMPLATES, openAIAnalysisLLM, executeSQLGeneration, executeBusinessAnalysis, executeSchemaAnalysis, executeQuestionClassification, executeGeneralKnowledge } from '../configs/langchain';
+import { ColumnInfo, DatabaseConnectionService, DatabaseSchema, SchemaFilter, VisibilityRules } from './databaseConnection';
 import { VectorStoreService } from './vectorStore';
 import { CacheService } from './cacheService';
 import { prisma } from '../index';
 // Update LangChain imports to latest API
-import { BufferMemory } from 'langchain/memory';
-import { semanticCache } from './semanticCache';
-import { getEmbeddings } from '../configs/langchain';
+import { BaseListChatMessageHistory } from '@langchain/core/chat_history';
+import { AIMessage, BaseMessage, HumanMessage, StoredMessage, mapChatMessagesToStoredMessages, mapStoredMessagesToChatMessages } from '@langchain/core/messages';
+import { CacheStoreProvider } from './cacheStore';
+import { SemanticCacheService } from './semanticCache';
+import { TokenQuotaExceededError } from './tokenUsage';
+import { ConnectorRegistry, formatDialectRules, qualifiedTableName } from './connectors';
+import { SchemaDriftService } from './schemaDriftService';
+import { SchemaVisibility } from './schemaVisibility';
+import { QueryAttempt, QueryEngine } from './queryEngine';
 
 export interface RAGRequest {
   question: string;
@@ -24,6 +30,7 @@ export interface RAGRequest {
   databaseId?: string;
   context?: string;
   useGeneralKnowledge?: boolean; // true: force general knowledge, false: force database, undefined: auto-classify
+  noCache?: boolean; // Skip cached queries and responses; the new ones are still cached, except in the semantic cache
 }
 
 export interface RAGResponse {
@@ -39,6 +46,11 @@ export interface RAGResponse {
     name: string;
     type: string;
   };
+  truncated?: boolean; // Query returned more rows than the plan's row limit; only the first rowLimit rows were analyzed
+  rowLimit?: number;
+  queryAttempts?: QueryAttempt[]; // Every query generated, repaired or retried for the answer
+  fromCache?: boolean; // The whole response was served from the query result or semantic cache
+  cacheSimilarity?: number; // Semantic cache hits: similarity of the question to the cached one
 }
 
 export interface DatabaseInfo {
@@ -46,26 +58,55 @@ export interface DatabaseInfo {
   name: string;
   type: string;
   connectionString: string;
+  schemas: SchemaFilter;
+  profileColumns: boolean;
+  visibility: VisibilityRules;
 }
 
-// Memory manager using LangChain ConversationBufferMemory
-const userMemories: Map<string, BufferMemory> = new Map();
+/**
+ * Conversation messages of a user, kept in the cache store so that every API instance sees the same history
+ */
+class SharedChatMessageHistory extends BaseListChatMessageHistory {
+  lc_namespace = ['edarah', 'memory'];
+  static readonly TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days since the last message
+
+  constructor(private readonly userId: string) {
+    super();
+  }
+
+  static key(userId: string): string {
+    return `mem:${userId}`;
+  }
+
+  async getMessages(): Promise<BaseMessage[]> {
+    const stored = await CacheStoreProvider.get().get<StoredMessage[]>(SharedChatMessageHistory.key(this.userId));
+    return mapStoredMessagesToChatMessages(stored ?? []);
+  }
 
-function getUserMemory(userId: string): BufferMemory {
-  if (!userMemories.has(userId)) {
-    userMemories.set(userId, new BufferMemory({
-      returnMessages: true,
-      memoryKey: 'chat_history',
-      inputKey: 'question',
-      outputKey: 'response',
-      // maxMessages is not a valid option for BufferMemory, so remove it
-    }));
+  async addMessage(message: BaseMessage): Promise<void> {
+    await this.addMessages([message]);
   }
-  return userMemories.get(userId)!;
+
+  async addMessages(messages: BaseMessage[]): Promise<void> {
+    const history = [...await this.getMessages(), ...messages];
+    await CacheStoreProvider.get().set(
+      SharedChatMessageHistory.key(this.userId),
+      mapChatMessagesToStoredMessages(history),
+      SharedChatMessageHistory.TTL_MS
+    );
+  }
+
+  async clear(): Promise<void> {
+    await CacheStoreProvider.get().delete([SharedChatMessageHistory.key(this.userId)]);
+  }
+}
+
+function getUserMemory(userId: string): SharedChatMessageHistory {
+  return new SharedChatMessageHistory(userId);
 }
 
-function clearUserMemory(userId: string) {
-  userMemories.delete(userId);
+async function clearUserMemory(userId: string): Promise<void> {
+  await getUserMemory(userId).clear();
 }
 
 /**
@@ -73,9 +114,7 @@ function clearUserMemory(userId: string) {
  */
 async function loadConversationHistory(userId: string): Promise<string> {
   try {
-    const memory = getUserMemory(userId);
-    const memoryVariables = await memory.loadMemoryVariables({});
-    const chatHistory = memoryVariables.chat_history;
+    const chatHistory = await getUserMemory(userId).getMessages();
     
     if (!chatHistory || chatHistory.length === 0) {
       return '';
@@ -102,18 +141,15 @@ async function loadConversationHistory(userId: string): Promise<string> {
  */
 async function saveConversation(userId: string, question: string, response: string): Promise<void> {
   try {
-    const memory = getUserMemory(userId);
-    await memory.saveContext(
-      { question },
-      { response }
-    );
+    // Both messages in one write, so the exchange is never stored half
+    await getUserMemory(userId).addMessages([new HumanMessage(question), new AIMessage(response)]);
     console.log(`Conversation saved for user ${userId}`);
   } catch (error) {
     console.error('Error saving conversation:', error);
   }
 }
 
-export { getUserMemory, clearUserMemory, userMemories, loadConversationHistory, saveConversation };
+export { getUserMemory, clearUserMemory, loadConversationHistory, saveConversation };
 
 /**
  * Question classification interface
@@ -127,14 +163,14 @@ interface QuestionClassification {
 /**
  * Classify whether a question needs database analysis or can be answered from general knowledge
  */
-async function classifyQuestion(question: string, chatHistory: string): Promise<QuestionClassification> {
+async function classifyQuestion(question: string, chatHistory: string, userId?: string): Promise<QuestionClassification> {
   try {
     console.log('Classifying question:', question);
     
     const result = await executeQuestionClassification({
       question,
       chatHistory
-    });
+    }, userId);
     
     console.log('Raw classification result:', result);
     
@@ -183,6 +219,9 @@ async function classifyQuestion(question: string, chatHistory: string): Promise<
       confidence: classification.confidence
     };
   } catch (error) {
+    if (error instanceof TokenQuotaExceededError) {
+      throw error;
+    }
     console.error('Error classifying question, defaulting to database:', error);
     return {
       needsDatabase: true,
@@ -203,7 +242,7 @@ export class RAGService {
       const response = await executeGeneralKnowledge({
         question: request.question,
         chatHistory: chatHistory
-      });
+      }, request.userId);
       
       console.log('General knowledge response:', response);
       
@@ -227,6 +266,9 @@ export class RAGService {
       };
     } catch (error) {
       console.error('Error processing general knowledge request:', error);
+      if (error instanceof TokenQuotaExceededError) {
+        throw error;
+      }
       throw new Error('Failed to process general knowledge request');
     }
   }
@@ -242,13 +284,49 @@ export class RAGService {
       const databaseInfo = await this.getUserDatabase(request.userId, request.databaseId);
       // Step 2: Get or refresh schema
       const schema = await this.getSchema(databaseInfo);
+      const queryLimits = await DatabaseConnectionService.getQueryLimits(request.userId);
 
-      // Step 3: SQL generation prompt with MySQL and status instructions
-      const schemaDescription = this.formatSchemaForPrompt(schema);
-      let dbInstructions = '';
-      if (schema.databaseType === 'mysql') {
-        dbInstructions = `\n- Use only MySQL 8.0 compatible syntax.\n- Do not use multiple CTEs (WITH ... AS ...), use subqueries if needed.\n- Do not include explanations or comments, only the SQL statement.\n- ONLY generate SELECT queries, NEVER INSERT, UPDATE, or DELETE operations.\n- Do not use double quotes for table or column names. Use backticks or no quotes.\n- For order status, use actual values from the database: 'delivered', 'shipped', 'processing', etc. Do NOT use 'Completed'. If unsure, use IN ('delivered', 'shipped', 'processing').`;
+      // Cache keys carry the version of the schema the model sees, so schema and visibility changes miss
+      const schemaVersion = this.generateSchemaVersion(SchemaVisibility.applyToSchema(schema, databaseInfo.visibility));
+      // Both prompts include the conversation so far, so the query and the answer are cached per conversation
+      // state; the answer also depends on the business context, the query does not
+      const historyKey = chatHistory ? `\n${CacheService.generateContentHash(chatHistory)}` : '';
+      const sqlCacheKey = `${request.question}${historyKey}`;
+      const resultCacheKey = `${request.question}${request.context ? `\n${request.context}` : ''}${historyKey}`;
+      if (!request.noCache) {
+        const cached = await CacheService.getCachedQueryResult(request.userId, databaseInfo.id, resultCacheKey, schemaVersion);
+        if (cached) {
+          const response: RAGResponse = { ...cached.response, fromCache: true };
+          await saveConversation(request.userId, request.question, this.formatResponseForMemory(response));
+          return response;
+        }
+      }
+
+      // Similar questions asked before are answered from the semantic cache; similarity cannot tell
+      // conversations apart, so it is only used for questions asked without history. Embedding is a paid
+      // call, so it is skipped along with the lookup when caches are bypassed.
+      const questionEmbedding = chatHistory || request.noCache
+        ? null
+        : await SemanticCacheService.embed(resultCacheKey).catch(error => {
+            console.log('Question embedding failed, continuing without the semantic cache:', error instanceof Error ? error.message : error);
+            return null;
+          });
+      if (questionEmbedding) {
+        const hit = await SemanticCacheService.lookup(request.userId, databaseInfo.id, schemaVersion, questionEmbedding);
+        if (hit) {
+          const response: RAGResponse = { ...hit.response, fromCache: true, cacheSimilarity: hit.similarity };
+          await saveConversation(request.userId, request.question, this.formatResponseForMemory(response));
+          return response;
+        }
       }
+      const cachedQuery = request.noCache
+        ? null
+        : await CacheService.getCachedSQLQuery(request.userId, databaseInfo.id, sqlCacheKey, schemaVersion);
+
+      // Step 3: SQL generation prompt with the connector's dialect rules and status instructions
+      const connector = ConnectorRegistry.get(schema.databaseType);
+      const schemaDescription = this.formatSchemaForPrompt(schema, databaseInfo.visibility);
+      const dbInstructions = `${formatDialectRules(connector.promptHints)}\n- Do not include explanations or comments, only the query.${QueryEngine.categoricalValuesRule(schema)}`;
       const prompt = PROMPT_TEMPLATES.formatSQLPrompt({
         schema: schemaDescription,
         question: request.question,
@@ -256,82 +334,23 @@ export class RAGService {
         chatHistory: chatHistory
       }) + dbInstructions;
       console.log('Prompt to OpenAI (SQL generation):\n', prompt);
-      let sqlResult = await openAIQueryLLM.call({ prompt });
-      let sqlQuery = sqlResult.text.trim().replace(/```sql|```javascript|```/gi, '').trim();
-      // Only allow SELECT queries for SQL databases
-      const sqlMatch = sqlQuery.match(/SELECT[\s\S]*/i);
-      if (sqlMatch) {
-        sqlQuery = sqlMatch[0].trim();
-      } else {
-        throw new Error('Only SELECT queries are allowed for data analysis. No INSERT, UPDATE, or DELETE operations permitted.');
-      }
-      // Post-process query for MySQL compatibility
-      if (schema.databaseType === 'mysql') {
-        sqlQuery = sqlQuery.replace(/"/g, '`'); // Replace double quotes with backticks
-      }
-      console.log('Final query to execute:', sqlQuery);
-      // Step 4: Execute query, with fallback if it fails
-      let queryResult: any[] = [];
-      let mainQueryResult;
-      try {
-        mainQueryResult = await this.executeQuery(databaseInfo, sqlQuery);
-        console.log('Main SQL query result:', mainQueryResult);
-        // If query returns no results, try a less restrictive fallback query
-        if (mainQueryResult.length === 0) {
-          console.log('Query returned no results, trying less restrictive fallback query...');
-          // Remove status filter if present
-          let fallbackQuery = sqlQuery.replace(/WHERE\s+o\.status\s*=\s*['\"]\w+['\"]/i, '');
-          // Or use IN ('delivered', 'shipped', 'processing')
-          if (fallbackQuery === sqlQuery) {
-            fallbackQuery = sqlQuery.replace(/WHERE\s+o\.status\s*=\s*['\"]\w+['\"]/i, "WHERE o.status IN ('delivered','shipped','processing')");
-          }
-          if (fallbackQuery === sqlQuery) {
-            // If no status filter, just remove WHERE clause
-            fallbackQuery = sqlQuery.replace(/WHERE[\s\S]*?(GROUP BY|ORDER BY|LIMIT)/i, '$1');
-          }
-          console.log('Fallback query:', fallbackQuery);
-          let fallbackResult = [];
-          try {
-            fallbackResult = await this.executeQuery(databaseInfo, fallbackQuery);
-            console.log('Fallback SQL query result:', fallbackResult);
-          } catch (fallbackError) {
-            console.log('Fallback query failed:', fallbackError);
-          }
-          // Use fallback only if it returns data
-          queryResult = fallbackResult.length > 0 ? fallbackResult : mainQueryResult;
-        } else {
-          queryResult = mainQueryResult;
-        }
-      } catch (error) {
-        // If SQL execution fails, re-prompt LLM with error and ask for a fix
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        const fixPrompt = `${prompt}\n\nThe previous query failed with the following error for ${schema.databaseType}:\n${errorMsg}\nPlease fix the query for this database and return only the corrected query.\n- Use only MySQL 8.0 compatible syntax.\n- Do not use multiple CTEs.\n- Do not use double quotes for table or column names.\n- Use IN ('delivered','shipped','processing') for order status if needed.`;
-        console.log('Re-prompting OpenAI (query fix):\n', fixPrompt);
-        sqlResult = await openAIQueryLLM.call({ prompt: fixPrompt });
-        sqlQuery = sqlResult.text.trim().replace(/```sql|```javascript|```/gi, '').trim();
-        // Only allow SELECT queries for SQL databases
-        const sqlMatch2 = sqlQuery.match(/SELECT[\s\S]*/i);
-        if (sqlMatch2) {
-          sqlQuery = sqlMatch2[0].trim();
-        } else {
-          throw new Error('Only SELECT queries are allowed for data analysis. No INSERT, UPDATE, or DELETE operations permitted.');
-        }
-        if (schema.databaseType === 'mysql') {
-          sqlQuery = sqlQuery.replace(/"/g, '`');
-        }
-        // Try executing the fixed query
-        queryResult = await this.executeQuery(databaseInfo, sqlQuery);
-      }
-      // Step 5: Defensive: Ensure queryResult is always an array
-      if (!Array.isArray(queryResult)) {
-        if (queryResult === undefined || queryResult === null) {
-          queryResult = [];
-        } else {
-          queryResult = [queryResult];
-        }
-      }
+
+      // Step 4: Generate and execute the query, repairing it on error and relaxing it when it finds nothing
+      const execution = await QueryEngine.run({
+        userId: request.userId,
+        target: databaseInfo,
+        schema,
+        prompt,
+        limits: queryLimits,
+        retryOnEmpty: true,
+        cachedQuery: cachedQuery ?? undefined
+      });
+      let queryResult = execution.rows;
+      const sqlQuery = execution.query;
+      const truncated = execution.truncated;
+
       console.log('SQL Results before formatting:', queryResult, 'Length:', queryResult.length);
-      // If after all attempts there is still no data, return a clear message to the user
+      // Step 5: If after all attempts there is still no data, return a clear message to the user
       if (queryResult.length === 0) {
         return {
           insights: 'No data found for your request. Please check your filters or ensure your database contains relevant data.',
@@ -339,9 +358,13 @@ export class RAGService {
           dataSummary: { totalRecords: 0, keyMetrics: {} },
           confidence: 2,
           query: sqlQuery,
+          queryAttempts: execution.attempts,
+          fromCache: false,
           databaseInfo: { name: databaseInfo.name, type: databaseInfo.type }
         };
       }
+      // Repeat questions reuse a query that found data
+      await CacheService.cacheSQLQuery(request.userId, databaseInfo.id, sqlCacheKey, sqlQuery, schemaVersion, schema.databaseType);
       // Step 6: Process results and add to vector store
       // Defensive: Ensure queryResult is always an array
       if (!Array.isArray(queryResult)) {
@@ -386,7 +409,10 @@ export class RAGService {
       console.log('SQL Results before formatting:', queryResult, 'Length:', queryResult.length);
       let safeQueryResult = Array.isArray(queryResult) ? queryResult : (queryResult ? [queryResult] : []);
       console.log('Safe SQL Results before formatting:', safeQueryResult, 'Length:', safeQueryResult.length);
-      const dataContext = this.formatDataForPrompt(safeQueryResult);
+      let dataContext = this.formatDataForPrompt(safeQueryResult);
+      if (truncated) {
+        dataContext += `\n\nNote: the query returned more rows than the limit of ${queryLimits.maxRows}; only the first ${queryLimits.maxRows} rows are included.`;
+      }
       console.log('=== DATA FLOW DEBUG ===');
       console.log('Query result length:', queryResult.length);
       console.log('Query result type:', typeof queryResult);
@@ -403,7 +429,7 @@ export class RAGService {
         chatHistory: chatHistory
       });
       console.log('Prompt to OpenAI GPT-4.1-nano (Business analysis):\n', businessPrompt);
-      const insightsResult = await openAIAnalysisLLM.call({ prompt: businessPrompt });
+      const insightsResult = await openAIAnalysisLLM.call({ prompt: businessPrompt, userId: request.userId });
       console.log('Raw insights response:', insightsResult.text);
       let insights: any = {};
       try {
@@ -422,26 +448,26 @@ export class RAGService {
           confidence: 5,
         };
       }
-      // Step 9: Save conversation to memory
-      const responseText = JSON.stringify({
-        insights: insights.insights,
-        recommendations: insights.recommendations,
-        dataSummary: insights.dataSummary,
-        confidence: insights.confidence,
-        query: sqlQuery
-      });
-      console.log('Saving conversation to memory for user:', request.userId);
-      await saveConversation(request.userId, request.question, responseText);
-      console.log('Conversation saved successfully');
-      // Step 10: Return complete response
-      return {
+      const response: RAGResponse = {
         ...insights,
         query: sqlQuery,
+        truncated,
+        rowLimit: queryLimits.maxRows,
         databaseInfo: {
           name: databaseInfo.name,
           type: databaseInfo.type
         }
       };
+      // Step 9: Save conversation to memory
+      console.log('Saving conversation to memory for user:', request.userId);
+      await saveConversation(request.userId, request.question, this.formatResponseForMemory(response));
+      console.log('Conversation saved successfully');
+      // Step 10: Cache the response without this run's attempts, and return it
+      await CacheService.cacheQueryResult(request.userId, databaseInfo.id, resultCacheKey, response, schemaVersion, sqlQuery);
+      if (questionEmbedding) {
+        await SemanticCacheService.store(request.userId, databaseInfo.id, schemaVersion, resultCacheKey, questionEmbedding, response);
+      }
+      return { ...response, queryAttempts: execution.attempts, fromCache: false };
     } catch (error) {
       console.error('Error processing database request:', error);
       throw error;
@@ -470,7 +496,7 @@ export class RAGService {
       } else {
         // Automatic classification when user doesn't specify preference
         console.log('No user preference: Using automatic classification');
-        const classification = await classifyQuestion(request.question, chatHistory);
+        const classification = await classifyQuestion(request.question, chatHistory, request.userId);
         console.log('Question classification result:', classification);
         
         if (classification.needsDatabase) {
@@ -518,7 +544,10 @@ export class RAGService {
         id: userDatabase.id.toString(),
         name: userDatabase.database_name || 'Unknown',
         type: userDatabase.database_type,
-        connectionString: userDatabase.connection_string
+        connectionString: userDatabase.connection_string,
+        schemas: { include: userDatabase.included_schemas, exclude: userDatabase.excluded_schemas },
+        profileColumns: userDatabase.profiling_enabled,
+        visibility: SchemaVisibility.fromUserDatabase(userDatabase)
       };
     } catch (error) {
       throw new Error(`Failed to get user database: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -527,12 +556,15 @@ export class RAGService {
 
   public static async getSchema(databaseInfo: DatabaseInfo): Promise<DatabaseSchema> {
     try {
-      // Check if we have a cached schema that's not too old (weekly refresh)
       const userDatabase = await prisma.user_databases.findUnique({
         where: { id: BigInt(databaseInfo.id) }
       });
+      if (!userDatabase) {
+        throw new Error('Database not found');
+      }
 
-      if (userDatabase?.schema_cache) {
+      // The drift job keeps the cache current; refresh here only when it has not run (weekly fallback)
+      if (userDatabase.schema_cache) {
         const lastUpdate = userDatabase.last_schema_update;
         const weekInMs = 7 * 24 * 60 * 60 * 1000;
         
@@ -542,21 +574,8 @@ export class RAGService {
         }
       }
 
-      // Get fresh schema
-      const schema = await DatabaseConnectionService.getSchema(
-        databaseInfo.connectionString,
-        databaseInfo.type
-      );
-
-      // Update cache
-      await prisma.user_databases.update({
-        where: { id: BigInt(databaseInfo.id) },
-        data: {
-          schema_cache: schema as any,
-          last_schema_update: new Date()
-        }
-      });
-
+      // Get fresh schema, recorded as a new version when it changed
+      const { schema } = await SchemaDriftService.refresh(userDatabase);
       return schema;
     } catch (error) {
       throw new Error(`Failed to get schema: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -566,7 +585,7 @@ export class RAGService {
   /**
    * Generate SQL query using LangChain
    */
-  private static async generateSQLQuery(question: string, schema: DatabaseSchema): Promise<string> {
+  private static async generateSQLQuery(question: string, schema: DatabaseSchema, userId?: string): Promise<string> {
     try {
       const schemaDescription = this.formatSchemaForPrompt(schema);
       
@@ -574,7 +593,7 @@ export class RAGService {
         schema: schemaDescription,
         question: question,
         databaseType: schema.databaseType
-      });
+      }, userId);
 
       if (!result) {
         throw new Error('Failed to generate SQL query');
@@ -583,6 +602,9 @@ export class RAGService {
       return result.trim();
     } catch (error) {
       console.error('Error generating SQL query:', error);
+      if (error instanceof TokenQuotaExceededError) {
+        throw error;
+      }
       
       // Provide more specific error messages
       if (error instanceof Error) {
@@ -601,33 +623,6 @@ export class RAGService {
     }
   }
 
-  /**
-   * Execute SQL query
-   */
-  private static async executeQuery(databaseInfo: DatabaseInfo, sqlQuery: string): Promise<any[]> {
-    try {
-      console.log('Executing query:', sqlQuery);
-      console.log('Database info:', { type: databaseInfo.type, name: databaseInfo.name });
-      
-      const result = await DatabaseConnectionService.executeQuery(
-        databaseInfo.connectionString,
-        databaseInfo.type,
-        sqlQuery
-      );
-      
-      console.log('Query execution successful. Result count:', result.length);
-      console.log('Result type:', typeof result);
-      console.log('Result is array:', Array.isArray(result));
-      console.log('First few results:', result.slice(0, 3));
-      console.log('Result structure:', result.length > 0 ? Object.keys(result[0]) : 'No results');
-      
-      return result;
-    } catch (error) {
-      console.error('Query execution failed:', error);
-      throw new Error(`Query execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
-  }
-
   /**
    * Generate business insights using LangChain with vector store context
    */
@@ -635,7 +630,8 @@ export class RAGService {
     question: string, 
     data: any[], 
     context?: string,
-    vectorContext?: string
+    vectorContext?: string,
+    userId?: string
   ): Promise<Omit<RAGResponse, 'query' | 'databaseInfo'>> {
     try {
       const dataContext = this.formatDataForPrompt(data);
@@ -645,7 +641,7 @@ export class RAGService {
         question: question,
         data: dataContext,
         context: combinedContext || 'No additional context provided'
-      });
+      }, userId);
 
       if (!result) {
         throw new Error('Failed to generate insights');
@@ -671,36 +667,73 @@ export class RAGService {
       }
     } catch (error) {
       console.error('Error generating insights:', error);
+      if (error instanceof TokenQuotaExceededError) {
+        throw error;
+      }
       throw new Error('Failed to generate insights');
     }
   }
 
-  public static formatSchemaForPrompt(schema: DatabaseSchema): string {
-    return schema.tables.map(table => {
+  /**
+   * Sampled values, range and null rate of a profiled column
+   */
+  private static formatColumnProfile(column: ColumnInfo): string {
+    const profile = column.profile;
+    if (!profile) return '';
+
+    const parts: string[] = [];
+    if (profile.values?.length) {
+      parts.push(`values: ${profile.values.map(value => `'${value.replace(/'/g, "''")}'`).join(', ')}`);
+    }
+    if (profile.min !== undefined && profile.max !== undefined) {
+      parts.push(`range: ${profile.min} to ${profile.max}`);
+    }
+    if (profile.nullRate > 0) {
+      parts.push(`${Math.round(profile.nullRate * 100)}% null`);
+    }
+    return parts.length > 0 ? ` [${parts.join('; ')}]` : '';
+  }
+
+  /**
+   * Describe the schema for the model; hidden tables and masked columns are left out
+   */
+  public static formatSchemaForPrompt(schema: DatabaseSchema, visibility?: VisibilityRules): string {
+    const connector = ConnectorRegistry.get(schema.databaseType);
+    return SchemaVisibility.applyToSchema(schema, visibility).tables.map(table => {
       const columns = table.columns.map(col => {
-        let typeDescription = col.type;
+        // Connectors can describe engine-specific types better for the model
+        const typeDescription = connector.describeColumnType ? connector.describeColumnType(col.type) : col.type;
         
-        // For PostgreSQL, provide better type descriptions
-        if (schema.databaseType === 'postgresql') {
-          if (col.type === 'USER-DEFINED') {
-            // Temporarily mark enum columns as problematic to avoid them in queries
-            typeDescription = 'ENUM (avoid using this column in WHERE clauses for now)';
-          } else if (col.type.includes('timestamp')) {
-            typeDescription = 'TIMESTAMP';
-          } else if (col.type === 'bigint') {
-            typeDescription = 'BIGINT';
-          }
-        }
-        
-        return `${col.name} (${typeDescription})${col.isPrimaryKey ? ' [PRIMARY KEY]' : ''}${col.isNullable ? '' : ' [NOT NULL]'}`;
+        // Document stores report how often a field is present in the sampled documents
+        const presence = col.frequency !== undefined && col.frequency < 1 ? ` [in ${Math.round(col.frequency * 100)}% of documents]` : '';
+
+        const comment = col.comment ? ` /* ${col.comment} */` : '';
+
+        return `${col.name} (${typeDescription})${col.isPrimaryKey ? ' [PRIMARY KEY]' : ''}${col.isNullable ? '' : ' [NOT NULL]'}${presence}${this.formatColumnProfile(col)}${comment}`;
       }).join(', ');
       
-      // For PostgreSQL, quote table names that contain uppercase letters
-      const tableName = schema.databaseType === 'postgresql' && /[A-Z]/.test(table.name) 
-        ? `"${table.name}"` 
-        : table.name;
-      
-      return `Table: ${tableName}\nColumns: ${columns}`;
+      // Schema-qualified where the engine has schemas, so identically named tables stay apart
+      const formatTableName = (name: string, tableSchema?: string) =>
+        connector.formatTableName ? connector.formatTableName(name, tableSchema) : qualifiedTableName({ name, schema: tableSchema });
+      const lines = [`Table: ${formatTableName(table.name, table.schema)}`];
+      if (table.comment) {
+        lines.push(`Description: ${table.comment}`);
+      }
+      lines.push(`Columns: ${columns}`);
+
+      // Relationships tell the model which columns to join on instead of guessing
+      if (table.foreignKeys?.length) {
+        const relationships = table.foreignKeys.map(fk =>
+          `(${fk.columns.join(', ')}) -> ${formatTableName(fk.referencedTable, fk.referencedSchema)}(${fk.referencedColumns.join(', ')})`
+        );
+        lines.push(`Foreign keys: ${relationships.join('; ')}`);
+      }
+      if (table.indexes?.length) {
+        const indexes = table.indexes.map(index => `${index.isUnique ? 'UNIQUE ' : ''}(${index.columns.join(', ')})`);
+        lines.push(`Indexes: ${indexes.join('; ')}`);
+      }
+
+      return lines.join('\n');
     }).join('\n\n');
   }
 
@@ -917,8 +950,20 @@ export class RAGService {
    * Generate schema version for caching
    */
   private static generateSchemaVersion(schema: DatabaseSchema): string {
-    const schemaString = JSON.stringify(schema, Object.keys(schema).sort());
-    return require('crypto').createHash('sha256').update(schemaString).digest('hex').substring(0, 8);
+    return CacheService.generateSchemaHash(schema).substring(0, 16);
+  }
+
+  /**
+   * Response as saved to conversation memory
+   */
+  private static formatResponseForMemory(response: RAGResponse): string {
+    return JSON.stringify({
+      insights: response.insights,
+      recommendations: response.recommendations,
+      dataSummary: response.dataSummary,
+      confidence: response.confidence,
+      query: response.query
+    });
   }
 
   /**
@@ -971,7 +1016,7 @@ export class RAGService {
   /**
    * Analyze database schema to determine business type using LangChain
    */
-  static async analyzeBusinessType(schema: DatabaseSchema): Promise<{
+  static async analyzeBusinessType(schema: DatabaseSchema, userId?: string): Promise<{
     businessType: string;
     entities: string[];
     processes: string[];
@@ -982,7 +1027,7 @@ export class RAGService {
       
       const result = await executeSchemaAnalysis({
         schema: schemaDescription
-      });
+      }, userId);
 
       if (!result) {
         throw new Error('Failed to analyze business type');
@@ -1001,6 +1046,9 @@ export class RAGService {
       }
     } catch (error) {
       console.error('Error analyzing business type:', error);
+      if (error instanceof TokenQuotaExceededError) {
+        throw error;
+      }
       throw new Error('Failed to analyze business type');
     }
   }
@@ -1030,18 +1078,21 @@ export class RAGService {
   }
 
   /**
-   * Extract table names from a SQL query (supports FROM, JOIN, UPDATE, INTO)
+   * Extract table names from a SQL query (supports FROM, JOIN, UPDATE, INTO), schema-qualified as written
    */
   public static extractTableNamesFromSQL(sqlQuery: string): string[] {
     if (!sqlQuery) return [];
     const tableNames = new Set<string>();
-    // Match FROM, JOIN, UPDATE, INTO (ignore subqueries and aliases)
-    const regex = /\b(?:FROM|JOIN|UPDATE|INTO)\s+([`'"]?\w+[`'"]?)/gi;
+    // One identifier: plain, "quoted", `quoted` or [bracketed]
+    const identifier = '(?:"[^"]+"|`[^`]+`|\\[[^\\]]+\\]|\\w+)';
+    // Match FROM, JOIN, UPDATE, INTO followed by [database.][schema.]table (ignore subqueries and aliases)
+    const regex = new RegExp(`\\b(?:FROM|JOIN|UPDATE|INTO)\\s+(${identifier}(?:\\s*\\.\\s*${identifier}){0,2})`, 'gi');
     let match;
     while ((match = regex.exec(sqlQuery)) !== null) {
-      let table = match[1];
-      // Remove quotes/backticks
-      table = table.replace(/^[`'"]|[`'"]$/g, '');
+      // Remove quotes/backticks/brackets from every part
+      const table = (match[1].match(new RegExp(identifier, 'g')) ?? [])
+        .map(part => part.replace(/^["`\[]|["`\]]$/g, ''))
+        .join('.');
       tableNames.add(table);
     }
     return Array.from(tableNames);
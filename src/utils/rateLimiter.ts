@@ -1,5 +1,6 @@
-import { RateLimiterMemory } from 'rate-limiter-flexible';
-import { prisma } from '../index';
+import { RateLimiterAbstract, RateLimiterMemory, RateLimiterRedis, RateLimiterRes } from 'rate-limiter-flexible';
+import { SubscriptionService } from './subscriptionService';
+import { CacheStoreProvider } from './cacheStore';
 
 export interface RateLimitConfig {
   points: number;        // Number of requests allowed
@@ -8,22 +9,44 @@ export interface RateLimitConfig {
 }
 
 export class RateLimiterService {
-  private static limiters = new Map<string, RateLimiterMemory>();
+  private static readonly KEY_PREFIX = 'ratelimit';
+  private static limiters = new Map<string, RateLimiterAbstract>();
+
+  /**
+   * Limiter for a user's tier: counted in the shared backend when one is configured, so every instance
+   * enforces the same limit, with a per-instance limiter while the backend is unreachable
+   */
+  private static getLimiter(key: string, config: RateLimitConfig): RateLimiterAbstract {
+    // Recreated when the plan's tier changed
+    let limiter = this.limiters.get(key);
+    if (limiter && limiter.points === config.points && limiter.duration === config.duration && limiter.blockDuration === config.blockDuration) {
+      return limiter;
+    }
+
+    const options = {
+      points: config.points,
+      duration: config.duration,
+      blockDuration: config.blockDuration
+    };
+    const redis = CacheStoreProvider.getRedisClient();
+    limiter = redis
+      ? new RateLimiterRedis({
+          ...options,
+          storeClient: redis,
+          keyPrefix: this.KEY_PREFIX,
+          insuranceLimiter: new RateLimiterMemory(options)
+        })
+      : new RateLimiterMemory(options);
+    this.limiters.set(key, limiter);
+    return limiter;
+  }
 
   /**
    * Get rate limit configuration based on user's plan
    */
   static async getRateLimitConfig(userId: string): Promise<RateLimitConfig> {
     try {
-      const userPlan = await prisma.user_plans.findFirst({
-        where: {
-          user_id: BigInt(userId),
-          is_active: true
-        },
-        include: {
-          plan: true
-        }
-      });
+      const userPlan = await SubscriptionService.getActivePlan(userId);
 
       if (!userPlan) {
         // Default limits for users without active plans
@@ -34,36 +57,12 @@ export class RateLimiterService {
         };
       }
 
-      // Customize limits based on plan
-      switch (userPlan.plan.name) {
-        case 'free':
-          return {
-            points: 50,
-            duration: 3600, // 1 hour
-            blockDuration: 3600
-          };
-        
-        case 'pro':
-          return {
-            points: 200,
-            duration: 3600, // 1 hour
-            blockDuration: 1800 // 30 minutes
-          };
-        
-        case 'business':
-          return {
-            points: 1000,
-            duration: 3600, // 1 hour
-            blockDuration: 900 // 15 minutes
-          };
-        
-        default:
-          return {
-            points: 50,
-            duration: 3600,
-            blockDuration: 3600
-          };
-      }
+      // Limits come from the plan's rate limit tier
+      return {
+        points: userPlan.plan.rate_limit_points,
+        duration: userPlan.plan.rate_limit_duration,
+        blockDuration: userPlan.plan.rate_limit_block_duration
+      };
     } catch (error) {
       console.error('Error getting rate limit config:', error);
       // Fallback to conservative limits
@@ -82,17 +81,7 @@ export class RateLimiterService {
     try {
       const config = await this.getRateLimitConfig(userId);
       const key = `user:${userId}`;
-      
-      // Get or create rate limiter for this user
-      let limiter = this.limiters.get(key);
-      if (!limiter) {
-        limiter = new RateLimiterMemory({
-          points: config.points,
-          duration: config.duration,
-          blockDuration: config.blockDuration
-        });
-        this.limiters.set(key, limiter);
-      }
+      const limiter = this.getLimiter(key, config);
 
       // Consume one point
       const result = await limiter.consume(key);
@@ -103,11 +92,12 @@ export class RateLimiterService {
         resetTime: new Date(Date.now() + result.msBeforeNext)
       };
     } catch (error) {
-      if (error instanceof Error && error.message.includes('Rate limiter')) {
-        // Rate limit exceeded
+      // Rate limit exceeded: the limiter rejects with its result, not an Error
+      if (error instanceof RateLimiterRes) {
         return {
           allowed: false,
-          remaining: 0
+          remaining: 0,
+          resetTime: new Date(Date.now() + error.msBeforeNext)
         };
       }
       
@@ -127,8 +117,9 @@ export class RateLimiterService {
     try {
       const config = await this.getRateLimitConfig(userId);
       const key = `user:${userId}`;
-      
-      const limiter = this.limiters.get(key);
+
+      // Shared counts may have been consumed through another instance
+      const limiter = CacheStoreProvider.getRedisClient() ? this.getLimiter(key, config) : this.limiters.get(key);
       if (!limiter) {
         return {
           remaining: config.points,
@@ -154,8 +145,10 @@ export class RateLimiterService {
    */
   static async resetRateLimit(userId: string): Promise<void> {
     const key = `user:${userId}`;
-    const limiter = this.limiters.get(key);
-    
+    const limiter = CacheStoreProvider.getRedisClient()
+      ? this.getLimiter(key, await this.getRateLimitConfig(userId))
+      : this.limiters.get(key);
+
     if (limiter) {
       await limiter.delete(key);
       this.limiters.delete(key);
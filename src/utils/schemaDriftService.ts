@@ -0,0 +1,233 @@
+import { Prisma, user_databases } from '@prisma/client';
+import { prisma } from '../index';
+import { DatabaseConnectionService, DatabaseSchema, DatabaseTarget } from './databaseConnection';
+import { qualifiedTableName } from './connectors';
+import { CacheService } from './cacheService';
+import { VectorStoreService } from './vectorStore';
+import { SchemaVisibility } from './schemaVisibility';
+import { SemanticCacheService } from './semanticCache';
+
+export interface ColumnChange {
+  table: string;    // Schema-qualified where the engine has schemas
+  column: string;
+  type?: string;
+  previousType?: string;
+}
+
+export interface SchemaDiff {
+  addedTables: string[];
+  removedTables: string[];
+  addedColumns: ColumnChange[];
+  removedColumns: ColumnChange[];
+  retypedColumns: ColumnChange[];
+}
+
+export interface SchemaRefreshResult {
+  version: number;
+  changed: boolean;
+  changes: SchemaDiff;
+  flaggedItems: number;   // Stored analyses referencing removed tables or columns
+  schema: DatabaseSchema;
+}
+
+/**
+ * Re-introspects connected databases, keeps a versioned schema history and reacts to drift:
+ * cached queries of the database are invalidated and stored analyses using removed columns are flagged
+ */
+export class SchemaDriftService {
+  private static readonly DRIFT_JOB_INTERVAL = 15 * 60 * 1000; // 15 minutes
+  private static driftJob: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  // Read on first use, after .env is loaded
+  private static get REFRESH_INTERVAL(): number {
+    return Number(process.env.SCHEMA_DRIFT_INTERVAL_MS) || 6 * 60 * 60 * 1000; // 6 hours
+  }
+
+  /**
+   * Connection target of a stored user database
+   */
+  static targetFor(userDatabase: user_databases): DatabaseTarget {
+    return {
+      id: userDatabase.id.toString(),
+      type: userDatabase.database_type,
+      connectionString: userDatabase.connection_string,
+      schemas: { include: userDatabase.included_schemas, exclude: userDatabase.excluded_schemas },
+      profileColumns: userDatabase.profiling_enabled,
+      visibility: SchemaVisibility.fromUserDatabase(userDatabase)
+    };
+  }
+
+  /**
+   * Tables and columns added, removed or retyped between two schemas
+   */
+  static diffSchemas(previous: DatabaseSchema | null, next: DatabaseSchema): SchemaDiff {
+    const diff: SchemaDiff = { addedTables: [], removedTables: [], addedColumns: [], removedColumns: [], retypedColumns: [] };
+    const previousTables = new Map((previous?.tables ?? []).map(table => [qualifiedTableName(table), table]));
+    const nextTables = new Map(next.tables.map(table => [qualifiedTableName(table), table]));
+
+    for (const [name, table] of nextTables) {
+      const previousTable = previousTables.get(name);
+      if (!previousTable) {
+        diff.addedTables.push(name);
+        continue;
+      }
+
+      const previousColumns = new Map(previousTable.columns.map(column => [column.name, column]));
+      for (const column of table.columns) {
+        const previousColumn = previousColumns.get(column.name);
+        if (!previousColumn) {
+          diff.addedColumns.push({ table: name, column: column.name, type: column.type });
+        } else if (previousColumn.type !== column.type) {
+          diff.retypedColumns.push({ table: name, column: column.name, type: column.type, previousType: previousColumn.type });
+        }
+      }
+
+      const columnNames = new Set(table.columns.map(column => column.name));
+      for (const column of previousTable.columns) {
+        if (!columnNames.has(column.name)) {
+          diff.removedColumns.push({ table: name, column: column.name, previousType: column.type });
+        }
+      }
+    }
+
+    for (const name of previousTables.keys()) {
+      if (!nextTables.has(name)) {
+        diff.removedTables.push(name);
+      }
+    }
+
+    return diff;
+  }
+
+  static hasChanges(diff: SchemaDiff): boolean {
+    return Object.values(diff).some(changes => changes.length > 0);
+  }
+
+  /**
+   * Introspect a user database again and record the result
+   */
+  static async refresh(userDatabase: user_databases): Promise<SchemaRefreshResult> {
+    const schema = await DatabaseConnectionService.getSchema(this.targetFor(userDatabase));
+    return await this.recordSchema(userDatabase, schema);
+  }
+
+  /**
+   * Store a freshly introspected schema: a new version when it differs from the cached one (or none exists yet),
+   * with invalidation of the database's cached queries and flagging of stored analyses. Extra row updates
+   * (e.g. changed introspection settings) are written in the same update.
+   */
+  static async recordSchema(
+    userDatabase: user_databases,
+    schema: DatabaseSchema,
+    data: Prisma.user_databasesUpdateInput = {}
+  ): Promise<SchemaRefreshResult> {
+    const previous = userDatabase.schema_cache as unknown as DatabaseSchema | null;
+    const changes = this.diffSchemas(previous, schema);
+    const changed = userDatabase.schema_version === 0 || this.hasChanges(changes);
+    const version = changed ? userDatabase.schema_version + 1 : userDatabase.schema_version;
+
+    await prisma.$transaction(async tx => {
+      if (changed) {
+        await tx.schema_versions.create({
+          data: {
+            user_database_id: userDatabase.id,
+            version,
+            schema: schema as any,
+            changes: changes as any
+          }
+        });
+      }
+      await tx.user_databases.update({
+        where: { id: userDatabase.id },
+        data: {
+          ...data,
+          schema_cache: schema as any,
+          schema_version: version,
+          last_schema_update: new Date()
+        }
+      });
+    });
+
+    let flaggedItems = 0;
+    if (changed && userDatabase.schema_version > 0) {
+      const userId = userDatabase.user_id.toString();
+      const databaseId = userDatabase.id.toString();
+      console.log(`Schema drift detected for database ${databaseId}, now at version ${version}`);
+
+      await CacheService.invalidateDatabaseCache(userId, databaseId);
+      await SemanticCacheService.invalidateDatabase(userId, databaseId)
+        .catch(error => console.warn(`Semantic cache invalidation failed for database ${databaseId}:`, error));
+      flaggedItems = await VectorStoreService.flagStaleDocuments(userId, databaseId, {
+        tables: changes.removedTables,
+        columns: changes.removedColumns
+      }).catch(error => {
+        console.warn(`Vector store flagging failed for database ${databaseId}:`, error);
+        return 0;
+      });
+    }
+
+    return { version, changed, changes, flaggedItems, schema };
+  }
+
+  /**
+   * Schema versions of a user database, newest first
+   */
+  static async getHistory(databaseId: string, limit = 20) {
+    return await prisma.schema_versions.findMany({
+      where: { user_database_id: BigInt(databaseId) },
+      orderBy: { version: 'desc' },
+      take: limit,
+      select: { version: true, changes: true, created_at: true }
+    });
+  }
+
+  /**
+   * Re-introspect every active database whose schema was not refreshed within REFRESH_INTERVAL
+   */
+  static async runDriftCheck(): Promise<void> {
+    // A slow database must not make runs overlap
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const databases = await prisma.user_databases.findMany({
+        where: {
+          is_active: true,
+          last_schema_update: { lt: new Date(Date.now() - this.REFRESH_INTERVAL) }
+        }
+      });
+
+      for (const userDatabase of databases) {
+        try {
+          await this.refresh(userDatabase);
+        } catch (error) {
+          console.warn(`Schema drift check failed for database ${userDatabase.id}:`, error instanceof Error ? error.message : error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Start the scheduled drift detection job
+   */
+  static startDriftJob(): void {
+    if (this.driftJob) return;
+
+    this.driftJob = setInterval(() => {
+      this.runDriftCheck().catch(error => console.error('Schema drift job failed:', error));
+    }, this.DRIFT_JOB_INTERVAL);
+  }
+
+  /**
+   * Stop the scheduled drift detection job
+   */
+  static stopDriftJob(): void {
+    if (this.driftJob) {
+      clearInterval(this.driftJob);
+      this.driftJob = null;
+    }
+  }
+}
@@ -0,0 +1,192 @@
+import { DataSourceConnector, DatabaseSchema, TableInfo, VisibilityRules, qualifiedTableName } from './connectors/connector';
+import { UnsafeQueryError } from './sqlValidator';
+
+/**
+ * Per-database table and column visibility. Hidden tables and masked columns are left out of prompts,
+ * queries reading them are rejected, and masked columns are removed from result rows.
+ * Names match case-insensitively; a rule without a schema matches the table in every schema.
+ */
+export class SchemaVisibility {
+  static readonly NONE: VisibilityRules = { includeTables: [], excludeTables: [], maskedColumns: [] };
+
+  static fromUserDatabase(userDatabase: { included_tables: string[]; excluded_tables: string[]; masked_columns: string[] }): VisibilityRules {
+    return {
+      includeTables: userDatabase.included_tables,
+      excludeTables: userDatabase.excluded_tables,
+      maskedColumns: userDatabase.masked_columns
+    };
+  }
+
+  static isEmpty(rules?: VisibilityRules): boolean {
+    return !rules || (rules.includeTables.length === 0 && rules.excludeTables.length === 0 && rules.maskedColumns.length === 0);
+  }
+
+  /**
+   * Whether a table, schema-qualified or not, may be shown and queried
+   */
+  static isTableVisible(table: string, rules?: VisibilityRules): boolean {
+    if (!rules) return true;
+    const included = rules.includeTables.length === 0 || rules.includeTables.some(rule => this.matchesTable(rule, table));
+    return included && !rules.excludeTables.some(rule => this.matchesTable(rule, table));
+  }
+
+  /**
+   * Masked column paths of a table, lower-cased
+   */
+  static maskedColumnsOf(table: string, rules?: VisibilityRules): string[] {
+    if (!rules) return [];
+    const name = table.toLowerCase();
+    const unqualified = name.split('.').pop()!;
+    const columns = new Set<string>();
+
+    for (const rule of rules.maskedColumns.map(entry => entry.toLowerCase())) {
+      for (const prefix of [name, unqualified]) {
+        if (rule.startsWith(`${prefix}.`)) columns.add(rule.slice(prefix.length + 1));
+      }
+      // A schema-qualified rule for a table the query leaves unqualified
+      if (name === unqualified) {
+        const match = rule.match(/^[^.]+\.([^.]+)\.(.+)$/);
+        if (match && match[1] === name) columns.add(match[2]);
+      }
+    }
+    return Array.from(columns);
+  }
+
+  static isColumnMasked(table: string, column: string, rules?: VisibilityRules): boolean {
+    const path = column.toLowerCase();
+    // Masking a document field also masks the fields nested in it
+    return this.maskedColumnsOf(table, rules).some(masked => path === masked || path.startsWith(`${masked}.`));
+  }
+
+  /**
+   * The schema as the model may see it: hidden tables dropped, masked columns removed along with
+   * the foreign keys and indexes using them
+   */
+  static applyToSchema(schema: DatabaseSchema, rules?: VisibilityRules): DatabaseSchema {
+    if (this.isEmpty(rules)) return schema;
+
+    const tables = this.visibleTables(schema.tables, rules).map(table => {
+      const name = qualifiedTableName(table);
+      const isVisible = (column: string) => !this.isColumnMasked(name, column, rules);
+
+      return {
+        ...table,
+        columns: table.columns.filter(column => isVisible(column.name)),
+        foreignKeys: table.foreignKeys?.filter(fk =>
+          fk.columns.every(isVisible) &&
+          this.isTableVisible(qualifiedTableName({ name: fk.referencedTable, schema: fk.referencedSchema }), rules) &&
+          fk.referencedColumns.every(column =>
+            !this.isColumnMasked(qualifiedTableName({ name: fk.referencedTable, schema: fk.referencedSchema }), column, rules)
+          )
+        ),
+        indexes: table.indexes?.filter(index => index.columns.every(isVisible))
+      };
+    });
+
+    return { ...schema, tables };
+  }
+
+  /**
+   * Visible tables, as the same objects
+   */
+  static visibleTables(tables: TableInfo[], rules?: VisibilityRules): TableInfo[] {
+    return tables.filter(table => this.isTableVisible(qualifiedTableName(table), rules));
+  }
+
+  /**
+   * Drop the profiles of masked columns, so their sampled values are never stored
+   */
+  static dropMaskedProfiles(tables: TableInfo[], rules?: VisibilityRules): void {
+    for (const table of tables) {
+      for (const column of table.columns) {
+        if (this.isColumnMasked(qualifiedTableName(table), column.name, rules)) {
+          column.profile = undefined;
+        }
+      }
+    }
+  }
+
+  /**
+   * Reject a validated query that reads a hidden table, a masked column, or a whole row of a table with
+   * masked columns (row_to_json(e) cannot be redacted). Returns the masked columns
+   * of the tables it reads, to be removed from the result rows (e.g. for SELECT *).
+   */
+  static assertQueryAllowed(connector: DataSourceConnector, query: string, rules?: VisibilityRules): string[] {
+    if (this.isEmpty(rules)) return [];
+
+    const { tables, columns, rows = [] } = connector.references(query);
+    const errors: string[] = [];
+
+    for (const table of tables) {
+      if (!this.isTableVisible(table, rules)) {
+        errors.push(`Table ${table} is not available`);
+      }
+    }
+
+    for (const reference of columns) {
+      if (reference.column === '*') continue;
+      // Unqualified columns may belong to any table the query reads
+      const candidates = reference.table ? [reference.table] : tables;
+      const owner = candidates.find(table => this.isColumnMasked(table, reference.column, rules));
+      if (owner) {
+        errors.push(`Column ${owner}.${reference.column} is not available`);
+      }
+    }
+
+    for (const table of rows) {
+      if (this.maskedColumnsOf(table, rules).length > 0) {
+        errors.push(`Whole rows of ${table} are not available, select its columns instead`);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new UnsafeQueryError(Array.from(new Set(errors)));
+    }
+    return Array.from(new Set(tables.flatMap(table => this.maskedColumnsOf(table, rules))));
+  }
+
+  /**
+   * Remove masked columns (dotted paths for documents) from result rows
+   */
+  static redactRows(rows: any[], maskedColumns: string[]): any[] {
+    if (maskedColumns.length === 0) return rows;
+    for (const row of rows) {
+      for (const path of maskedColumns) {
+        this.removePath(row, path.split('.'));
+      }
+    }
+    return rows;
+  }
+
+  private static removePath(value: any, path: string[]): void {
+    if (value === null || typeof value !== 'object') return;
+    if (Array.isArray(value)) {
+      value.forEach(element => this.removePath(element, path));
+      return;
+    }
+
+    const [head, ...rest] = path;
+    for (const key of Object.keys(value)) {
+      if (key.toLowerCase() !== head) continue;
+      if (rest.length === 0) {
+        delete value[key];
+      } else {
+        this.removePath(value[key], rest);
+      }
+    }
+  }
+
+  /**
+   * Whether a table rule names the table: same qualified name, or same table name when either side has no schema
+   */
+  private static matchesTable(rule: string, table: string): boolean {
+    const ruleName = rule.toLowerCase();
+    const tableName = table.toLowerCase();
+    if (ruleName === tableName) return true;
+
+    const ruleHasSchema = ruleName.includes('.');
+    const tableHasSchema = tableName.includes('.');
+    if (ruleHasSchema === tableHasSchema) return false;
+    return ruleName.split('.').pop() === tableName.split('.').pop();
+  }
+}
@@ -1,3 +1,7 @@
+import { prisma } from '../index';
+import { getEmbeddings } from '../configs/langchain';
+import { CacheService } from './cacheService';
+
 // Helper: Cosine similarity between two vectors
 function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) return -1;
@@ -11,34 +15,192 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return dot / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
-interface SemanticCacheEntry {
-  question: string;
-  embedding: number[];
-  result: any;
+export interface SemanticCacheHit {
+  response: any;
+  question: string;     // Cached question the new one matched
+  similarity: number;
 }
 
-class SemanticCache {
-  private cache: SemanticCacheEntry[] = [];
+/**
+ * Answers to database questions stored in semantic_cache_entries, per user, database and schema version.
+ * A new question is served the answer of the most similar cached question above the similarity threshold.
+ */
+export class SemanticCacheService {
+  private static readonly CLEANUP_JOB_INTERVAL = 60 * 60 * 1000; // 1 hour
+  private static cleanupJob: NodeJS.Timeout | null = null;
+
+  // Read on first use, after .env is loaded
+  private static get SIMILARITY_THRESHOLD(): number {
+    return Number(process.env.SEMANTIC_CACHE_THRESHOLD) || 0.95;
+  }
+
+  private static get TTL_MS(): number {
+    return Number(process.env.SEMANTIC_CACHE_TTL_MS) || 24 * 60 * 60 * 1000; // 24 hours
+  }
+
+  private static get MAX_ENTRIES(): number {
+    return Number(process.env.SEMANTIC_CACHE_MAX_ENTRIES) || 200; // Per database
+  }
+
+  /**
+   * Embedding of a question, through the embedding cache
+   */
+  static async embed(question: string): Promise<number[]> {
+    const cached = await CacheService.getCachedEmbedding(question);
+    if (cached) return cached;
+
+    const [embedding] = await getEmbeddings([question]);
+    await CacheService.cacheEmbedding(question, embedding);
+    return embedding;
+  }
+
+  /**
+   * Most similar unexpired entry of the database and schema version, when it reaches the threshold
+   */
+  static async lookup(userId: string, databaseId: string, schemaVersion: string, embedding: number[]): Promise<SemanticCacheHit | null> {
+    try {
+      const entries = await prisma.semantic_cache_entries.findMany({
+        where: {
+          user_id: BigInt(userId),
+          user_database_id: BigInt(databaseId),
+          schema_version: schemaVersion,
+          expires_at: { gt: new Date() }
+        },
+        select: { id: true, question: true, embedding: true }
+      });
 
-  // Add a new entry to the cache
-  add(question: string, embedding: number[], result: any) {
-    this.cache.push({ question, embedding, result });
+      let best: { id: bigint; question: string } | null = null;
+      let bestSimilarity = -1;
+      for (const entry of entries) {
+        const similarity = cosineSimilarity(entry.embedding, embedding);
+        if (similarity > bestSimilarity) {
+          bestSimilarity = similarity;
+          best = entry;
+        }
+      }
+
+      if (!best || bestSimilarity < this.SIMILARITY_THRESHOLD) {
+        console.log(`Semantic cache MISS for database ${databaseId} (best similarity ${bestSimilarity.toFixed(3)})`);
+        return null;
+      }
+
+      const hit = await prisma.semantic_cache_entries.update({
+        where: { id: best.id },
+        data: { hit_count: { increment: 1 }, last_used_at: new Date() },
+        select: { response: true }
+      });
+      console.log(`Semantic cache HIT for database ${databaseId} (similarity ${bestSimilarity.toFixed(3)})`);
+      return { response: hit.response, question: best.question, similarity: bestSimilarity };
+    } catch (error) {
+      console.error('Error looking up semantic cache:', error);
+      return null;
+    }
   }
 
-  // Find the most similar question in the cache
-  findMostSimilar(embedding: number[]): { entry: SemanticCacheEntry | null, similarity: number } {
-    let bestEntry: SemanticCacheEntry | null = null;
-    let bestSim = -1;
-    for (const entry of this.cache) {
-      const sim = cosineSimilarity(entry.embedding, embedding);
-      if (sim > bestSim) {
-        bestSim = sim;
-        bestEntry = entry;
+  /**
+   * Store an answer, evicting the least recently used entries of the database beyond MAX_ENTRIES
+   */
+  static async store(
+    userId: string,
+    databaseId: string,
+    schemaVersion: string,
+    question: string,
+    embedding: number[],
+    response: any
+  ): Promise<void> {
+    try {
+      const userDatabaseId = BigInt(databaseId);
+      await prisma.semantic_cache_entries.create({
+        data: {
+          user_id: BigInt(userId),
+          user_database_id: userDatabaseId,
+          schema_version: schemaVersion,
+          question,
+          embedding,
+          response: JSON.parse(JSON.stringify(response)),
+          expires_at: new Date(Date.now() + this.TTL_MS)
+        }
+      });
+
+      const evicted = await prisma.semantic_cache_entries.findMany({
+        where: { user_database_id: userDatabaseId },
+        orderBy: { last_used_at: 'desc' },
+        skip: this.MAX_ENTRIES,
+        select: { id: true }
+      });
+      if (evicted.length > 0) {
+        await prisma.semantic_cache_entries.deleteMany({ where: { id: { in: evicted.map(entry => entry.id) } } });
+        console.log(`Evicted ${evicted.length} semantic cache entries for database ${databaseId}`);
       }
+    } catch (error) {
+      console.error('Error storing semantic cache entry:', error);
     }
-    return { entry: bestEntry, similarity: bestSim };
   }
-}
 
-// Singleton instance
-export const semanticCache = new SemanticCache(); 
\ No newline at end of file
+  /**
+   * Remove the entries of one database of a user
+   */
+  static async invalidateDatabase(userId: string, databaseId: string): Promise<number> {
+    const { count } = await prisma.semantic_cache_entries.deleteMany({
+      where: { user_id: BigInt(userId), user_database_id: BigInt(databaseId) }
+    });
+    return count;
+  }
+
+  /**
+   * Remove all entries of a user
+   */
+  static async clearUser(userId: string): Promise<number> {
+    const { count } = await prisma.semantic_cache_entries.deleteMany({ where: { user_id: BigInt(userId) } });
+    return count;
+  }
+
+  static async clearAll(): Promise<number> {
+    const { count } = await prisma.semantic_cache_entries.deleteMany({});
+    return count;
+  }
+
+  /**
+   * Entry and hit counts of a user
+   */
+  static async getStats(userId: string): Promise<{ total: number; hits: number }> {
+    const stats = await prisma.semantic_cache_entries.aggregate({
+      where: { user_id: BigInt(userId) },
+      _count: { _all: true },
+      _sum: { hit_count: true }
+    });
+    return { total: stats._count._all, hits: stats._sum.hit_count ?? 0 };
+  }
+
+  static async cleanupExpired(): Promise<number> {
+    const { count } = await prisma.semantic_cache_entries.deleteMany({ where: { expires_at: { lte: new Date() } } });
+    if (count > 0) {
+      console.log(`Cleaned up ${count} expired semantic cache entries`);
+    }
+    return count;
+  }
+
+  /**
+   * Start the scheduled removal of expired entries
+   */
+  static startCleanupJob(): void {
+    if (this.cleanupJob) return;
+
+    const run = () => {
+      this.cleanupExpired().catch(error => console.error('Semantic cache cleanup job failed:', error));
+    };
+
+    run();
+    this.cleanupJob = setInterval(run, this.CLEANUP_JOB_INTERVAL);
+  }
+
+  /**
+   * Stop the scheduled cleanup job
+   */
+  static stopCleanupJob(): void {
+    if (this.cleanupJob) {
+      clearInterval(this.cleanupJob);
+      this.cleanupJob = null;
+    }
+  }
+}
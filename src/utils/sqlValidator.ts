@@ -0,0 +1,291 @@
+import { Parser } from 'node-sql-parser';
+import { ColumnReference } from './connectors/connector';
+
+export interface SQLValidationResult {
+  valid: boolean;
+  errors: string[];
+  tables: string[];   // Tables read by the statement
+  columns: ColumnReference[];   // Columns read, with aliases resolved to their tables
+  rows: string[];     // Tables read as whole rows, e.g. row_to_json(e)
+}
+
+/**
+ * Thrown when a query is not a single read-only statement
+ */
+export class UnsafeQueryError extends Error {
+  errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Unsafe query rejected: ${errors.join('; ')}`);
+    this.name = 'UnsafeQueryError';
+    this.errors = errors;
+  }
+}
+
+export class SQLValidator {
+  private static readonly parser = new Parser();
+
+  // Our database types mapped to node-sql-parser dialects
+  private static readonly DIALECTS: Record<string, string> = {
+    postgresql: 'postgresql',
+    mysql: 'mysql',
+    sqlserver: 'transactsql',
+    sqlite: 'sqlite'
+  };
+
+  // Statement types that must never appear anywhere in the tree
+  private static readonly WRITE_STATEMENTS = new Set([
+    'insert', 'replace', 'update', 'delete', 'merge', 'create', 'drop', 'alter', 'truncate',
+    'rename', 'grant', 'revoke', 'call', 'exec', 'execute', 'set', 'lock', 'unlock',
+    'transaction', 'use', 'load_data', 'attach', 'detach', 'pragma', 'vacuum', 'declare', 'comment'
+  ]);
+
+  // Functions with side effects or access outside the tenant's data
+  private static readonly DENIED_FUNCTIONS = new Set([
+    // PostgreSQL
+    'pg_sleep', 'pg_sleep_for', 'pg_sleep_until', 'pg_read_file', 'pg_read_binary_file', 'pg_ls_dir',
+    'pg_stat_file', 'lo_import', 'lo_export', 'lo_unlink', 'dblink', 'dblink_exec', 'pg_terminate_backend',
+    'pg_cancel_backend', 'pg_reload_conf', 'pg_rotate_logfile', 'set_config', 'nextval', 'setval',
+    'pg_advisory_lock', 'pg_advisory_xact_lock', 'txid_current', 'query_to_xml', 'pg_logical_emit_message',
+    // MySQL
+    'sleep', 'benchmark', 'load_file', 'get_lock', 'release_lock', 'master_pos_wait', 'sys_exec', 'sys_eval',
+    // SQL Server
+    'xp_cmdshell', 'openrowset', 'opendatasource', 'openquery', 'openxml', 'waitfor',
+    // SQLite
+    'load_extension', 'writefile', 'readfile', 'edit', 'fts3_tokenizer'
+  ]);
+
+  /**
+   * Whether a database type is SQL (Mongo pipelines are validated separately)
+   */
+  static isSQLDialect(dbType: string): boolean {
+    return dbType in this.DIALECTS;
+  }
+
+  /**
+   * Pull the SQL statement out of an LLM answer (code fences, leading prose, trailing semicolon)
+   */
+  static extractQuery(llmOutput: string): string {
+    const text = llmOutput.replace(/```sql|```javascript|```/gi, '').trim();
+    const start = text.search(/\b(SELECT|WITH)\b/i);
+    if (start === -1) {
+      throw new UnsafeQueryError(['Only SELECT queries are allowed for data analysis. No INSERT, UPDATE, or DELETE operations permitted.']);
+    }
+    return text.slice(start).trim().replace(/;\s*$/, '');
+  }
+
+  /**
+   * Parse a query for the dialect and check that it is a single read-only statement
+   */
+  static validate(query: string, dbType: string): SQLValidationResult {
+    const database = this.DIALECTS[dbType];
+    if (!database) {
+      return { valid: false, errors: [`Unsupported SQL dialect: ${dbType}`], tables: [], columns: [], rows: [] };
+    }
+
+    const trimmed = query.trim().replace(/;\s*$/, '');
+    if (!trimmed) {
+      return { valid: false, errors: ['Query is empty'], tables: [], columns: [], rows: [] };
+    }
+
+    let parsed: ReturnType<Parser['parse']>;
+    try {
+      parsed = this.parser.parse(trimmed, { database });
+    } catch (error) {
+      // Anything the parser cannot prove safe is rejected
+      return {
+        valid: false,
+        errors: [`Query could not be parsed as ${dbType}: ${error instanceof Error ? error.message.split('\n')[0] : 'Unknown error'}`],
+        tables: [],
+        columns: [],
+        rows: []
+      };
+    }
+
+    const errors: string[] = [];
+    const statements = Array.isArray(parsed.ast) ? parsed.ast : [parsed.ast];
+
+    if (statements.length !== 1) {
+      errors.push(`Exactly one statement is allowed, got ${statements.length}`);
+    }
+
+    const root: any = statements[0];
+    if (!root || root.type !== 'select') {
+      errors.push(`Only SELECT statements are allowed, got ${root?.type?.toUpperCase() ?? 'nothing'}`);
+    }
+
+    for (const statement of statements) {
+      this.inspectNode(statement, errors);
+    }
+
+    // Common table expressions are listed as tables, but are not in the database
+    const cteNames = new Set<string>((Array.isArray(root?.with) ? root.with : []).map((cte: any) => String(cte?.name?.value ?? cte?.name).toLowerCase()));
+
+    // tableList entries look like "select::schema::table"
+    const tables: string[] = [];
+    for (const entry of parsed.tableList) {
+      const [operation, schema, table] = entry.split('::');
+      if (operation !== 'select') {
+        errors.push(`${operation.toUpperCase()} on ${table} is not allowed`);
+      }
+      const hasSchema = schema && schema !== 'null';
+      if (!hasSchema && cteNames.has(table.toLowerCase())) continue;
+      tables.push(hasSchema ? `${schema}.${table}` : table);
+    }
+
+    // columnList entries look like "select::table::column"; the table is "null" when the query does not say
+    const columns: ColumnReference[] = parsed.columnList.map(entry => {
+      const [, table, column] = entry.split('::');
+      return {
+        table: table && table !== 'null' ? table : undefined,
+        column: column === '(.*)' ? '*' : column
+      };
+    });
+
+    return {
+      valid: errors.length === 0,
+      errors: Array.from(new Set(errors)),
+      tables: Array.from(new Set(tables)),
+      columns,
+      rows: this.findRowReferences(root, Array.from(new Set(tables)), cteNames)
+    };
+  }
+
+  /**
+   * Throw UnsafeQueryError unless the query is a single read-only statement
+   */
+  static assertReadOnly(query: string, dbType: string): void {
+    const result = this.validate(query, dbType);
+    if (!result.valid) {
+      throw new UnsafeQueryError(result.errors);
+    }
+  }
+
+  /**
+   * Walk the AST and collect every write, SELECT INTO, locking clause and denied function
+   */
+  private static inspectNode(node: any, errors: string[]): void {
+    if (node === null || typeof node !== 'object') return;
+
+    if (Array.isArray(node)) {
+      for (const child of node) {
+        this.inspectNode(child, errors);
+      }
+      return;
+    }
+
+    if (typeof node.type === 'string' && this.WRITE_STATEMENTS.has(node.type.toLowerCase())) {
+      errors.push(`${node.type.toUpperCase()} statements are not allowed`);
+    }
+
+    if (node.type === 'select') {
+      if (node.into && (node.into.expr || node.into.position)) {
+        errors.push('SELECT ... INTO is not allowed');
+      }
+      if (node.locking_read || node.for_update) {
+        errors.push('Locking clauses (FOR UPDATE/FOR SHARE) are not allowed');
+      }
+    }
+
+    if (node.type === 'function') {
+      const name = this.getFunctionName(node);
+      if (name && this.DENIED_FUNCTIONS.has(name)) {
+        errors.push(`Function ${name} is not allowed`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      if (key === 'tableList' || key === 'columnList') continue;
+      this.inspectNode(child, errors);
+    }
+  }
+
+  /**
+   * Tables read as whole rows: a FROM name used as a value (SELECT e, row_to_json(e), json_agg(e)) or
+   * name.* inside an expression (to_jsonb(e.*)). A subquery or CTE alias stands for every table of the query.
+   */
+  private static findRowReferences(root: any, tables: string[], cteNames: Set<string>): string[] {
+    const sources = new Map<string, string[]>();
+    this.collectSources(root, tables, cteNames, sources);
+
+    const rows = new Set<string>();
+    this.collectRowReferences(root, sources, rows);
+    return Array.from(rows);
+  }
+
+  /**
+   * Map every name a FROM item can be referenced by to the tables behind it
+   */
+  private static collectSources(node: any, tables: string[], cteNames: Set<string>, sources: Map<string, string[]>): void {
+    if (node === null || typeof node !== 'object') return;
+
+    if (Array.isArray(node.from)) {
+      for (const item of node.from) {
+        if (typeof item?.table === 'string') {
+          const name = String(item.as ?? item.table).toLowerCase();
+          const isCte = !item.db && cteNames.has(item.table.toLowerCase());
+          sources.set(name, isCte ? tables : [item.db ? `${item.db}.${item.table}` : item.table]);
+        } else if (item?.as) {
+          sources.set(String(item.as).toLowerCase(), tables);
+        }
+      }
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      if (key === 'tableList' || key === 'columnList') continue;
+      this.collectSources(child, tables, cteNames, sources);
+    }
+  }
+
+  private static collectRowReferences(node: any, sources: Map<string, string[]>, rows: Set<string>): void {
+    if (node === null || typeof node !== 'object') return;
+
+    if (Array.isArray(node)) {
+      for (const child of node) {
+        this.collectRowReferences(child, sources, rows);
+      }
+      return;
+    }
+
+    if (node.type === 'column_ref') {
+      const table = this.getIdentifier(node.table);
+      const column = this.getIdentifier(node.column);
+      const source = column === '*' ? table : !table && column ? column : null;
+      for (const name of (source && sources.get(source)) || []) {
+        rows.add(name);
+      }
+      return;
+    }
+
+    for (const [key, child] of Object.entries(node)) {
+      if (key === 'tableList' || key === 'columnList') continue;
+      if (key === 'columns' && node.type === 'select' && Array.isArray(child)) {
+        // name.* in the select list expands to columns, which are redacted from the result rows
+        const values = child.filter((item: any) => !(item?.expr?.type === 'column_ref' && item.expr.column === '*'));
+        this.collectRowReferences(values, sources, rows);
+        continue;
+      }
+      this.collectRowReferences(child, sources, rows);
+    }
+  }
+
+  /**
+   * Identifiers are a string or a { value } / { expr: { value } } node depending on dialect
+   */
+  private static getIdentifier(value: any): string | null {
+    const name = typeof value === 'string' ? value : value?.expr?.value ?? value?.value;
+    return typeof name === 'string' ? name.toLowerCase() : null;
+  }
+
+  /**
+   * Function names are a string or a list of name parts depending on dialect/version; use the last part
+   */
+  private static getFunctionName(node: any): string | null {
+    const name = node.name;
+    if (typeof name === 'string') return name.toLowerCase();
+    const parts = Array.isArray(name?.name) ? name.name : Array.isArray(name) ? name : [];
+    const last = parts[parts.length - 1];
+    const value = typeof last === 'string' ? last : last?.value;
+    return typeof value === 'string' ? value.toLowerCase() : null;
+  }
+}
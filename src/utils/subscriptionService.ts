@@ -0,0 +1,202 @@
+import { Prisma, PlanName } from '@prisma/client';
+import { prisma } from '../index';
+
+type PrismaTx = Prisma.TransactionClient;
+
+export class SubscriptionService {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  // Read on first use, after .env is loaded
+  private static get EXPIRY_JOB_INTERVAL(): number {
+    return Number(process.env.SUBSCRIPTION_EXPIRY_INTERVAL_MS) || 60 * 60 * 1000; // 1 hour
+  }
+  private static expiryJob: NodeJS.Timeout | null = null;
+
+  /**
+   * Filter for the plan a user is currently entitled to
+   */
+  private static activeWhere(userId: string | bigint): Prisma.user_plansWhereInput {
+    return {
+      user_id: BigInt(userId),
+      is_active: true,
+      OR: [
+        { end_date: null },
+        { end_date: { gt: new Date() } }
+      ]
+    };
+  }
+
+  /**
+   * Get the user's single active plan (most recent one if several are still flagged active)
+   */
+  static async getActivePlan(userId: string | bigint) {
+    return await prisma.user_plans.findFirst({
+      where: this.activeWhere(userId),
+      include: {
+        plan: true
+      },
+      orderBy: [
+        { start_date: 'desc' },
+        { id: 'desc' }
+      ]
+    });
+  }
+
+  /**
+   * Get all of the user's plans, newest first
+   */
+  static async getPlanHistory(userId: string | bigint) {
+    return await prisma.user_plans.findMany({
+      where: { user_id: BigInt(userId) },
+      include: {
+        plan: true
+      },
+      orderBy: [
+        { start_date: 'desc' },
+        { id: 'desc' }
+      ]
+    });
+  }
+
+  /**
+   * Calculate when a subscription to the plan started at `from` ends (null: never expires)
+   */
+  static calculateEndDate(plan: { name: PlanName; billing_period_days: number }, from: Date): Date | null {
+    if (plan.name === PlanName.free || plan.billing_period_days <= 0) {
+      return null;
+    }
+    return new Date(from.getTime() + plan.billing_period_days * this.DAY_MS);
+  }
+
+  /**
+   * Activate a plan for a user. Any other active plan is deactivated (upgrade/downgrade);
+   * renewing the current plan carries the remaining time over.
+   */
+  static async activatePlan(userId: string | bigint, planId: number, tx?: PrismaTx) {
+    const run = async (client: PrismaTx) => {
+      const plan = await client.plans.findUnique({ where: { id: planId } });
+      if (!plan) {
+        throw new Error(`Plan with ID ${planId} not found`);
+      }
+
+      const now = new Date();
+      const current = await client.user_plans.findFirst({
+        where: this.activeWhere(userId),
+        orderBy: [{ start_date: 'desc' }, { id: 'desc' }]
+      });
+
+      // Renewal of the same plan extends from the current end date
+      const periodStart = current && current.plan_id === planId && current.end_date && current.end_date > now
+        ? current.end_date
+        : now;
+
+      await client.user_plans.updateMany({
+        where: { user_id: BigInt(userId), is_active: true },
+        data: { is_active: false, end_date: now }
+      });
+
+      return await client.user_plans.create({
+        data: {
+          user_id: BigInt(userId),
+          plan_id: planId,
+          is_active: true,
+          start_date: now,
+          end_date: this.calculateEndDate(plan, periodStart),
+          tokens_used: 0
+        },
+        include: {
+          plan: true
+        }
+      });
+    };
+
+    return tx ? await run(tx) : await prisma.$transaction(run);
+  }
+
+  /**
+   * Deactivate a user's active subscription to a plan and fall back to the free plan
+   */
+  static async deactivatePlan(userId: string | bigint, planId: number): Promise<void> {
+    await prisma.$transaction(async (tx) => {
+      await tx.user_plans.updateMany({
+        where: { user_id: BigInt(userId), plan_id: planId, is_active: true },
+        data: { is_active: false, end_date: new Date() }
+      });
+      await this.fallbackToFreePlan(userId, tx);
+    });
+  }
+
+  /**
+   * Put a user without an active plan on the free plan
+   */
+  static async fallbackToFreePlan(userId: string | bigint, tx: PrismaTx): Promise<void> {
+    const stillActive = await tx.user_plans.findFirst({ where: this.activeWhere(userId) });
+    if (stillActive) return;
+
+    const freePlan = await tx.plans.findFirst({
+      where: { name: PlanName.free, is_active: true }
+    });
+    if (!freePlan) {
+      console.warn(`No active free plan found, user ${userId} is left without a plan`);
+      return;
+    }
+
+    await this.activatePlan(userId, freePlan.id, tx);
+  }
+
+  /**
+   * Deactivate expired subscriptions and move their users to the free plan
+   */
+  static async expirePlans(): Promise<number> {
+    const expired = await prisma.user_plans.findMany({
+      where: {
+        is_active: true,
+        end_date: { lte: new Date() }
+      }
+    });
+
+    for (const userPlan of expired) {
+      try {
+        await prisma.$transaction(async (tx) => {
+          const updated = await tx.user_plans.updateMany({
+            where: { id: userPlan.id, is_active: true },
+            data: { is_active: false }
+          });
+          if (updated.count > 0) {
+            await this.fallbackToFreePlan(userPlan.user_id, tx);
+          }
+        });
+      } catch (error) {
+        console.error(`Error expiring user plan ${userPlan.id}:`, error);
+      }
+    }
+
+    if (expired.length > 0) {
+      console.log(`Expired ${expired.length} user plans`);
+    }
+    return expired.length;
+  }
+
+  /**
+   * Start the scheduled expiry job
+   */
+  static startExpiryJob(): void {
+    if (this.expiryJob) return;
+
+    const run = () => {
+      this.expirePlans().catch(error => console.error('Subscription expiry job failed:', error));
+    };
+
+    run();
+    this.expiryJob = setInterval(run, this.EXPIRY_JOB_INTERVAL);
+  }
+
+  /**
+   * Stop the scheduled expiry job
+   */
+  static stopExpiryJob(): void {
+    if (this.expiryJob) {
+      clearInterval(this.expiryJob);
+      this.expiryJob = null;
+    }
+  }
+}
@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import { prisma } from '../index';
+import { AuthUtils, JWTPayload } from './auth';
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface IssuedTokens {
+  token: string;               // Access token
+  refreshToken: string;
+  refreshTokenExpiresAt: Date;
+  sessionId: string;
+}
+
+export type RefreshTokenFailure = 'invalid' | 'expired' | 'reused';
+
+/**
+ * Thrown when a refresh token cannot be exchanged for a new token pair
+ */
+export class RefreshTokenError extends Error {
+  reason: RefreshTokenFailure;
+
+  constructor(reason: RefreshTokenFailure) {
+    super(reason === 'reused'
+      ? 'Refresh token was already used. All tokens of this session have been revoked.'
+      : `Refresh token is ${reason}`);
+    this.name = 'RefreshTokenError';
+    this.reason = reason;
+  }
+}
+
+export class TokenService {
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  // Read on first use, after .env is loaded
+  private static get REFRESH_TOKEN_TTL_DAYS(): number {
+    return Number(process.env.REFRESH_TOKEN_EXPIRES_IN_DAYS) || 30;
+  }
+  private static readonly CLEANUP_JOB_INTERVAL = 6 * 60 * 60 * 1000; // 6 hours
+  private static cleanupJob: NodeJS.Timeout | null = null;
+
+  /**
+   * Hash a refresh token; only the hash is stored
+   */
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static refreshTokenExpiry(): Date {
+    return new Date(Date.now() + this.REFRESH_TOKEN_TTL_DAYS * this.DAY_MS);
+  }
+
+  /**
+   * Build the access token payload from a user row
+   */
+  static buildPayload(user: {
+    id: bigint;
+    email: string;
+    role: JWTPayload['role'];
+    first_name: string;
+    last_name: string;
+    phone_number: string;
+  }): JWTPayload {
+    return {
+      userId: user.id.toString(),
+      email: user.email,
+      role: user.role,
+      firstName: user.first_name,
+      lastName: user.last_name,
+      phoneNumber: user.phone_number
+    };
+  }
+
+  /**
+   * Start a new login session: an access token and a refresh token
+   */
+  static async issueTokens(payload: JWTPayload, metadata: SessionMetadata = {}): Promise<IssuedTokens> {
+    const sessionId = crypto.randomUUID();
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+    const refreshTokenExpiresAt = this.refreshTokenExpiry();
+
+    await prisma.refresh_tokens.create({
+      data: {
+        user_id: BigInt(payload.userId),
+        token_hash: this.hashToken(refreshToken),
+        session_id: sessionId,
+        expires_at: refreshTokenExpiresAt,
+        user_agent: metadata.userAgent,
+        ip_address: metadata.ipAddress
+      }
+    });
+
+    return {
+      token: AuthUtils.generateToken(payload, sessionId),
+      refreshToken,
+      refreshTokenExpiresAt,
+      sessionId
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair. The old refresh token is revoked;
+   * presenting it again revokes the whole session (reuse detection).
+   */
+  static async rotateRefreshToken(refreshToken: string, metadata: SessionMetadata = {}): Promise<IssuedTokens> {
+    const stored = await prisma.refresh_tokens.findUnique({
+      where: { token_hash: this.hashToken(refreshToken) },
+      include: { user: true }
+    });
+
+    if (!stored) {
+      throw new RefreshTokenError('invalid');
+    }
+
+    if (stored.revoked_at) {
+      console.warn(`Refresh token reuse detected for user ${stored.user_id}, revoking session ${stored.session_id}`);
+      await this.revokeSession(stored.user_id, stored.session_id);
+      throw new RefreshTokenError('reused');
+    }
+
+    if (stored.expires_at <= new Date()) {
+      throw new RefreshTokenError('expired');
+    }
+
+    if (!stored.user.is_active) {
+      throw new RefreshTokenError('invalid');
+    }
+
+    const newRefreshToken = crypto.randomBytes(48).toString('base64url');
+    const refreshTokenExpiresAt = this.refreshTokenExpiry();
+
+    const rotated = await prisma.$transaction(async (tx) => {
+      // Only one concurrent request may rotate a given token
+      const claimed = await tx.refresh_tokens.updateMany({
+        where: { id: stored.id, revoked_at: null },
+        data: { revoked_at: new Date() }
+      });
+      if (claimed.count === 0) {
+        return false;
+      }
+
+      const created = await tx.refresh_tokens.create({
+        data: {
+          user_id: stored.user_id,
+          token_hash: this.hashToken(newRefreshToken),
+          session_id: stored.session_id,
+          expires_at: refreshTokenExpiresAt,
+          user_agent: metadata.userAgent,
+          ip_address: metadata.ipAddress
+        }
+      });
+
+      await tx.refresh_tokens.update({
+        where: { id: stored.id },
+        data: { replaced_by: created.id }
+      });
+      return true;
+    });
+
+    if (!rotated) {
+      console.warn(`Refresh token reuse detected for user ${stored.user_id}, revoking session ${stored.session_id}`);
+      await this.revokeSession(stored.user_id, stored.session_id);
+      throw new RefreshTokenError('reused');
+    }
+
+    return {
+      token: AuthUtils.generateToken(this.buildPayload(stored.user), stored.session_id),
+      refreshToken: newRefreshToken,
+      refreshTokenExpiresAt,
+      sessionId: stored.session_id
+    };
+  }
+
+  /**
+   * Revoke a login session: its refresh tokens and every access token issued for it
+   */
+  static async revokeSession(userId: string | bigint, sessionId: string): Promise<void> {
+    await prisma.$transaction([
+      prisma.refresh_tokens.updateMany({
+        where: { session_id: sessionId, revoked_at: null },
+        data: { revoked_at: new Date() }
+      }),
+      // Access tokens of the session never outlive its refresh tokens
+      prisma.revoked_tokens.upsert({
+        where: { token_id: sessionId },
+        create: { token_id: sessionId, user_id: BigInt(userId), expires_at: this.refreshTokenExpiry() },
+        update: {}
+      })
+    ]);
+  }
+
+  /**
+   * Revoke every session of a user (log out of all devices), optionally keeping one
+   */
+  static async revokeAllSessions(userId: string | bigint, exceptSessionId?: string): Promise<number> {
+    const sessions = await prisma.refresh_tokens.findMany({
+      where: {
+        user_id: BigInt(userId),
+        revoked_at: null,
+        expires_at: { gt: new Date() },
+        ...(exceptSessionId ? { session_id: { not: exceptSessionId } } : {})
+      },
+      select: { session_id: true },
+      distinct: ['session_id']
+    });
+
+    for (const { session_id } of sessions) {
+      await this.revokeSession(userId, session_id);
+    }
+    return sessions.length;
+  }
+
+  /**
+   * Put a single access token on the revocation list until it expires
+   */
+  static async revokeAccessToken(payload: JWTPayload): Promise<void> {
+    if (!payload.jti) return;
+
+    const expiresAt = payload.exp ? new Date(payload.exp * 1000) : this.refreshTokenExpiry();
+    await prisma.revoked_tokens.upsert({
+      where: { token_id: payload.jti },
+      create: { token_id: payload.jti, user_id: BigInt(payload.userId), expires_at: expiresAt },
+      update: {}
+    });
+  }
+
+  /**
+   * Check an access token against the revocation list (by token id and by session)
+   */
+  static async isRevoked(payload: JWTPayload): Promise<boolean> {
+    if (!payload.jti || !payload.sid) {
+      // Tokens issued before sessions existed cannot be recalled, so they are not accepted
+      return true;
+    }
+
+    const revoked = await prisma.revoked_tokens.findFirst({
+      where: { token_id: { in: [payload.jti, payload.sid] } },
+      select: { id: true }
+    });
+    return revoked !== null;
+  }
+
+  /**
+   * Delete expired refresh tokens, revocation entries and email tokens
+   */
+  static async purgeExpired(): Promise<void> {
+    const now = new Date();
+    await prisma.refresh_tokens.deleteMany({ where: { expires_at: { lte: now } } });
+    await prisma.revoked_tokens.deleteMany({ where: { expires_at: { lte: now } } });
+    await prisma.user_tokens.deleteMany({ where: { expires_at: { lte: now } } });
+  }
+
+  /**
+   * Start the scheduled cleanup job
+   */
+  static startCleanupJob(): void {
+    if (this.cleanupJob) return;
+
+    const run = () => {
+      this.purgeExpired().catch(error => console.error('Token cleanup job failed:', error));
+    };
+
+    run();
+    this.cleanupJob = setInterval(run, this.CLEANUP_JOB_INTERVAL);
+  }
+
+  /**
+   * Stop the scheduled cleanup job
+   */
+  static stopCleanupJob(): void {
+    if (this.cleanupJob) {
+      clearInterval(this.cleanupJob);
+      this.cleanupJob = null;
+    }
+  }
+}
@@ -0,0 +1,99 @@
+import { prisma } from '../index';
+import { SubscriptionService } from './subscriptionService';
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface TokenBalance {
+  allowed: boolean;
+  used: number;
+  limit: number | null;     // null when the user has no active plan to meter against
+  remaining: number | null;
+}
+
+/**
+ * Thrown when an LLM call is attempted after the user's plan token limit was reached
+ */
+export class TokenQuotaExceededError extends Error {
+  balance: TokenBalance;
+
+  constructor(balance: TokenBalance) {
+    super(`Token limit exceeded. Your plan allows ${balance.limit} tokens and ${balance.used} have been used.`);
+    this.name = 'TokenQuotaExceededError';
+    this.balance = balance;
+  }
+}
+
+export class TokenUsageService {
+  /**
+   * Get the token balance of the user's active plan
+   */
+  static async getTokenBalance(userId: string): Promise<TokenBalance> {
+    const userPlan = await SubscriptionService.getActivePlan(userId);
+
+    if (!userPlan) {
+      return { allowed: true, used: 0, limit: null, remaining: null };
+    }
+
+    const limit = userPlan.plan.token_limit;
+    const used = userPlan.tokens_used;
+    const remaining = Math.max(limit - used, 0);
+
+    return {
+      allowed: remaining > 0,
+      used,
+      limit,
+      remaining
+    };
+  }
+
+  /**
+   * Check if user still has tokens left on their plan
+   */
+  static async checkTokenQuota(userId: string): Promise<TokenBalance> {
+    try {
+      return await this.getTokenBalance(userId);
+    } catch (error) {
+      console.error('Error checking token quota:', error);
+      // Allow request on error (fail open), same as the rate limiter
+      return { allowed: true, used: 0, limit: null, remaining: null };
+    }
+  }
+
+  /**
+   * Throw TokenQuotaExceededError if the user has no tokens left
+   */
+  static async assertWithinQuota(userId: string): Promise<void> {
+    const balance = await this.checkTokenQuota(userId);
+    if (!balance.allowed) {
+      throw new TokenQuotaExceededError(balance);
+    }
+  }
+
+  /**
+   * Charge the tokens of an LLM call to the user's active plan
+   */
+  static async recordUsage(userId: string, usage: TokenUsage): Promise<void> {
+    if (!usage.totalTokens) return;
+
+    try {
+      const userPlan = await SubscriptionService.getActivePlan(userId);
+      if (!userPlan) {
+        console.warn(`No active plan for user ${userId}, ${usage.totalTokens} tokens not recorded`);
+        return;
+      }
+
+      await prisma.user_plans.update({
+        where: { id: userPlan.id },
+        data: {
+          tokens_used: { increment: usage.totalTokens }
+        }
+      });
+    } catch (error) {
+      console.error('Error recording token usage:', error);
+    }
+  }
+}
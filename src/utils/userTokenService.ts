@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { UserTokenType } from '@prisma/client';
+import { prisma } from '../index';
+
+/**
+ * Thrown when an email token is unknown, expired or already used
+ */
+export class InvalidUserTokenError extends Error {
+  constructor() {
+    super('Token is invalid or has expired');
+    this.name = 'InvalidUserTokenError';
+  }
+}
+
+export class UserTokenService {
+  static readonly EMAIL_VERIFICATION_TTL_HOURS = 24;
+  static readonly PASSWORD_RESET_TTL_MINUTES = 60;
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private static ttlMs(type: UserTokenType): number {
+    return type === UserTokenType.password_reset
+      ? this.PASSWORD_RESET_TTL_MINUTES * 60 * 1000
+      : this.EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000;
+  }
+
+  /**
+   * Create a token of the given type; earlier unused tokens of that type stop working
+   */
+  static async createToken(userId: string | bigint, type: UserTokenType): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const now = new Date();
+
+    await prisma.$transaction([
+      prisma.user_tokens.updateMany({
+        where: { user_id: BigInt(userId), type, used_at: null },
+        data: { used_at: now }
+      }),
+      prisma.user_tokens.create({
+        data: {
+          user_id: BigInt(userId),
+          type,
+          token_hash: this.hashToken(token),
+          expires_at: new Date(now.getTime() + this.ttlMs(type))
+        }
+      })
+    ]);
+
+    return token;
+  }
+
+  /**
+   * Mark a token as used and return its user id; a token can only be consumed once
+   */
+  static async consumeToken(token: string, type: UserTokenType): Promise<bigint> {
+    const stored = await prisma.user_tokens.findUnique({
+      where: { token_hash: this.hashToken(token) }
+    });
+
+    if (!stored || stored.type !== type || stored.used_at || stored.expires_at <= new Date()) {
+      throw new InvalidUserTokenError();
+    }
+
+    const claimed = await prisma.user_tokens.updateMany({
+      where: { id: stored.id, used_at: null },
+      data: { used_at: new Date() }
+    });
+    if (claimed.count === 0) {
+      throw new InvalidUserTokenError();
+    }
+
+    return stored.user_id;
+  }
+}
@@ -128,12 +128,87 @@ export class ValidationUtils {
     };
   }
 
+  /**
+   * Validate profile update input (only the fields that are present)
+   */
+  static validateProfileUpdateInput(data: {
+    firstName?: any;
+    lastName?: any;
+    phoneNumber?: any;
+  }): ValidationResult {
+    const errors: string[] = [];
+
+    if (data.firstName === undefined && data.lastName === undefined && data.phoneNumber === undefined) {
+      errors.push('At least one of firstName, lastName or phoneNumber is required');
+    }
+
+    if (data.firstName !== undefined && (typeof data.firstName !== 'string' || !data.firstName.trim())) {
+      errors.push('First name cannot be empty');
+    }
+
+    if (data.lastName !== undefined && (typeof data.lastName !== 'string' || !data.lastName.trim())) {
+      errors.push('Last name cannot be empty');
+    }
+
+    if (data.phoneNumber !== undefined) {
+      if (typeof data.phoneNumber !== 'string' || !data.phoneNumber.trim()) {
+        errors.push('Phone number cannot be empty');
+      } else if (!this.isValidPhoneNumber(data.phoneNumber)) {
+        errors.push('Invalid phone number format');
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate change password input
+   */
+  static validateChangePasswordInput(data: {
+    currentPassword: any;
+    newPassword: any;
+  }): ValidationResult {
+    const errors: string[] = [];
+
+    if (!data.currentPassword || typeof data.currentPassword !== 'string') {
+      errors.push('Current password is required');
+    }
+
+    if (!data.newPassword || typeof data.newPassword !== 'string') {
+      errors.push('New password is required');
+    } else {
+      const passwordValidation = this.isValidPassword(data.newPassword);
+      if (!passwordValidation.isValid) {
+        errors.push(...passwordValidation.errors);
+      }
+      if (data.newPassword === data.currentPassword) {
+        errors.push('New password must be different from the current password');
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
   static validateAddPlanInput(data: {
     name: any;
+    description?: any;
     features: any;
     price: any;
     is_active: any;
     token_limit: any;
+    database_limit_number?: any;
+    billing_period_days?: any;
+    rate_limit_points?: any;
+    rate_limit_duration?: any;
+    rate_limit_block_duration?: any;
+    query_timeout_ms?: any;
+    query_row_limit?: any;
   }): ValidationResult {
     const errors: string[] = [];
 
@@ -145,7 +220,81 @@ export class ValidationUtils {
 
     if (data.price === undefined || data.price === null || data.price === '') {
       errors.push('Price is required.');
-    } else {
+    }
+
+    if (data.is_active === undefined) {
+      errors.push('is_active is required.');
+    }
+
+    if (data.token_limit === undefined || data.token_limit === null || data.token_limit === '') {
+      errors.push('Token limit is required.');
+    }
+
+    if (!data.features) {
+      errors.push('Features are required.');
+    }
+
+    errors.push(...this.validatePlanFields(data));
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate a partial plan update (admin). Name cannot be changed since existing subscriptions refer to it.
+   */
+  static validateUpdatePlanInput(data: Record<string, any>): ValidationResult {
+    const errors: string[] = [];
+    const allowedFields = [
+      'description',
+      'features',
+      'price',
+      'is_active',
+      'token_limit',
+      'database_limit_number',
+      'billing_period_days',
+      'rate_limit_points',
+      'rate_limit_duration',
+      'rate_limit_block_duration',
+      'query_timeout_ms',
+      'query_row_limit'
+    ];
+
+    if (data.name !== undefined) {
+      errors.push('Plan name cannot be changed.');
+    }
+
+    const unknownFields = Object.keys(data).filter(key => key !== 'name' && !allowedFields.includes(key));
+    if (unknownFields.length > 0) {
+      errors.push(`Unknown fields: ${unknownFields.join(', ')}`);
+    }
+
+    if (!Object.keys(data).some(key => allowedFields.includes(key))) {
+      errors.push(`At least one of these fields is required: ${allowedFields.join(', ')}`);
+    }
+
+    const emptyFields = allowedFields.filter(key => key !== 'description' && (data[key] === null || data[key] === ''));
+    if (emptyFields.length > 0) {
+      errors.push(`Fields cannot be empty: ${emptyFields.join(', ')}`);
+    }
+
+    errors.push(...this.validatePlanFields(data));
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate and normalize the plan fields that are present in data
+   */
+  private static validatePlanFields(data: Record<string, any>): string[] {
+    const errors: string[] = [];
+
+    if (data.price !== undefined && data.price !== null && data.price !== '') {
       const parsedPrice = Number(data.price);
       if (isNaN(parsedPrice)) {
         errors.push('Price must be a valid number.');
@@ -154,35 +303,75 @@ export class ValidationUtils {
       }
     }
 
-    if (data.is_active === undefined) {
-      errors.push('is_active is required.');
-    } else if (typeof data.is_active === 'string') {
-      if (data.is_active.toLowerCase() === 'true') {
-        data.is_active = true;
-      } else if (data.is_active.toLowerCase() === 'false') {
-        data.is_active = false;
-      } else {
-        errors.push('is_active must be a boolean value or "true" or "false".');
+    if (data.is_active !== undefined) {
+      if (typeof data.is_active === 'string') {
+        if (data.is_active.toLowerCase() === 'true') {
+          data.is_active = true;
+        } else if (data.is_active.toLowerCase() === 'false') {
+          data.is_active = false;
+        } else {
+          errors.push('is_active must be a boolean value or "true" or "false".');
+        }
+      } else if (typeof data.is_active !== 'boolean') {
+        errors.push('is_active must be a boolean.');
       }
-    } else if (typeof data.is_active !== 'boolean') {
-      errors.push('is_active must be a boolean.');
     }
 
-    if (data.token_limit === undefined || data.token_limit === null || data.token_limit === '') {
-      errors.push('Token limit is required.');
-    } else {
-      const parsedTokenLimit = Number(data.token_limit);
-      if (!Number.isInteger(parsedTokenLimit)) {
-        errors.push('Token limit must be a valid integer.');
+    const integerFields: Record<string, string> = {
+      token_limit: 'Token limit',
+      database_limit_number: 'Database limit',
+      billing_period_days: 'Billing period',
+      rate_limit_points: 'Rate limit points',
+      rate_limit_duration: 'Rate limit duration',
+      rate_limit_block_duration: 'Rate limit block duration',
+      query_timeout_ms: 'Query timeout',
+      query_row_limit: 'Query row limit'
+    };
+
+    for (const [field, label] of Object.entries(integerFields)) {
+      if (data[field] === undefined || data[field] === null || data[field] === '') {
+        // Optional columns fall back to their database default
+        data[field] = undefined;
+        continue;
+      }
+      const parsed = Number(data[field]);
+      if (!Number.isInteger(parsed) || parsed < 0) {
+        errors.push(`${label} must be a valid non-negative integer.`);
       } else {
-        data.token_limit = parsedTokenLimit;
+        data[field] = parsed;
       }
     }
 
-    if (!data.features) {
-      errors.push('Features are required.');
-    } else if (typeof data.features !== 'object' || Array.isArray(data.features) || data.features === null) {
-      errors.push('Features must be an object.');
+    for (const field of ['query_timeout_ms', 'query_row_limit']) {
+      if (data[field] === 0) {
+        errors.push(`${integerFields[field]} must be greater than zero.`);
+      }
+    }
+
+    if (data.features !== undefined) {
+      if (typeof data.features !== 'object' || Array.isArray(data.features) || data.features === null) {
+        errors.push('Features must be an object.');
+      }
+    }
+
+    if (data.description !== undefined && data.description !== null && typeof data.description !== 'string') {
+      errors.push('Description must be a string.');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate the schema include/exclude lists of a user database
+   */
+  static validateSchemaFilterInput(data: { includeSchemas?: unknown; excludeSchemas?: unknown }): ValidationResult {
+    const errors: string[] = [];
+
+    for (const [field, value] of Object.entries({ includeSchemas: data.includeSchemas, excludeSchemas: data.excludeSchemas })) {
+      if (value === undefined) continue;
+      if (!Array.isArray(value) || value.some(name => typeof name !== 'string' || name.trim() === '' || name.length > 128)) {
+        errors.push(`${field} must be an array of schema names.`);
+      }
     }
 
     return {
@@ -190,5 +379,28 @@ export class ValidationUtils {
       errors
     };
   }
-}
 
+  /**
+   * Validate the table and column visibility rules of a user database
+   */
+  static validateVisibilityRulesInput(data: { includeTables?: unknown; excludeTables?: unknown; maskedColumns?: unknown }): ValidationResult {
+    const errors: string[] = [];
+    const isNameList = (value: unknown) =>
+      Array.isArray(value) && value.every(name => typeof name === 'string' && name.trim() !== '' && name.length <= 256);
+
+    for (const [field, value] of Object.entries({ includeTables: data.includeTables, excludeTables: data.excludeTables })) {
+      if (value !== undefined && !isNameList(value)) {
+        errors.push(`${field} must be an array of table names.`);
+      }
+    }
+
+    if (data.maskedColumns !== undefined && (!isNameList(data.maskedColumns) || (data.maskedColumns as string[]).some(name => !name.includes('.')))) {
+      errors.push('maskedColumns must be an array of table.column names.');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+}
@@ -1,8 +1,9 @@
+import crypto from 'crypto';
 import { MemoryVectorStore } from 'langchain/vectorstores/memory';
 import { Document } from 'langchain/document';
 import { getEmbeddings } from '../configs/langchain';
 import { CacheService } from './cacheService';
-import { prisma } from '../index';
+import { CacheStore, CacheStoreProvider } from './cacheStore';
 
 export interface VectorStoreDocument {
   id: string;
@@ -10,6 +11,9 @@ export interface VectorStoreDocument {
   metadata: Record<string, any>;
 }
 
+// Document with its embedding, as stored in the cache store; id is the key suffix
+type StoredVector = MemoryVectorStore['memoryVectors'][number] & { id: string };
+
 // Helper to wrap async embedding for MemoryVectorStore with caching
 function cachedEmbeddingWrapper() {
   return {
@@ -18,7 +22,7 @@ function cachedEmbeddingWrapper() {
       
       for (const text of texts) {
         // Check cache first
-        const cachedEmbedding = CacheService.getCachedEmbedding(text);
+        const cachedEmbedding = await CacheService.getCachedEmbedding(text);
         if (cachedEmbedding) {
           embeddings.push(cachedEmbedding);
         } else {
@@ -27,7 +31,7 @@ function cachedEmbeddingWrapper() {
           const embedding = result[0];
           
           // Cache the embedding
-          CacheService.cacheEmbedding(text, embedding);
+          await CacheService.cacheEmbedding(text, embedding);
           embeddings.push(embedding);
         }
       }
@@ -36,7 +40,7 @@ function cachedEmbeddingWrapper() {
     },
     embedQuery: async (text: string) => {
       // Check cache first
-      const cachedEmbedding = CacheService.getCachedEmbedding(text);
+      const cachedEmbedding = await CacheService.getCachedEmbedding(text);
       if (cachedEmbedding) {
         return cachedEmbedding;
       }
@@ -46,26 +50,39 @@ function cachedEmbeddingWrapper() {
       const embedding = result[0];
       
       // Cache the embedding
-      CacheService.cacheEmbedding(text, embedding);
+      await CacheService.cacheEmbedding(text, embedding);
       return embedding;
     }
   };
 }
 
+/**
+ * Stored analyses of a user database, one cache store entry per document with its embedding, so that every
+ * API instance searches the same documents; the similarity search runs in process
+ */
 export class VectorStoreService {
-  private static stores = new Map<string, MemoryVectorStore>();
+  private static readonly TTL_MS = 30 * 24 * 60 * 60 * 1000; // 30 days, as the embedding cache
+
+  private static get store(): CacheStore {
+    return CacheStoreProvider.get();
+  }
+
+  private static keyPrefix(userId: string, databaseId: string): string {
+    return `vs:${userId}:${databaseId}:`;
+  }
+
+  private static async loadVectors(userId: string, databaseId: string): Promise<StoredVector[]> {
+    const vectors = await this.store.getMany<StoredVector>(await this.store.keys(this.keyPrefix(userId, databaseId)));
+    return vectors.filter((vector): vector is StoredVector => vector !== null);
+  }
 
   /**
-   * Create or get vector store for a user
+   * Vector store of a user database, loaded from the cache store
    */
   static async getVectorStore(userId: string, databaseId: string): Promise<MemoryVectorStore> {
-    const key = `${userId}:${databaseId}`;
-    
-    if (!this.stores.has(key)) {
-      this.stores.set(key, new MemoryVectorStore(cachedEmbeddingWrapper()));
-    }
-    
-    return this.stores.get(key)!;
+    const vectorStore = new MemoryVectorStore(cachedEmbeddingWrapper());
+    vectorStore.memoryVectors = await this.loadVectors(userId, databaseId);
+    return vectorStore;
   }
 
   /**
@@ -77,7 +94,7 @@ export class VectorStoreService {
     documents: VectorStoreDocument[]
   ): Promise<void> {
     try {
-      const vectorStore = await this.getVectorStore(userId, databaseId);
+      const vectorStore = new MemoryVectorStore(cachedEmbeddingWrapper());
       
       const langchainDocs = documents.map(doc => new Document({
         pageContent: doc.content,
@@ -88,6 +105,13 @@ export class VectorStoreService {
       }));
 
       await vectorStore.addDocuments(langchainDocs);
+
+      // One entry per document, so instances adding documents at the same time never overwrite each other
+      const prefix = this.keyPrefix(userId, databaseId);
+      await Promise.all(vectorStore.memoryVectors.map(vector => {
+        const id = crypto.randomUUID();
+        return this.store.set(`${prefix}${id}`, { ...vector, id }, this.TTL_MS);
+      }));
       
       console.log(`Added ${documents.length} documents to vector store for user ${userId}`);
     } catch (error) {
@@ -118,11 +142,12 @@ export class VectorStoreService {
     userId: string,
     databaseId: string,
     query: string,
-    k: number = 5
+    k: number = 5,
+    filter?: (doc: Document) => boolean
   ): Promise<Document[]> {
     try {
       const vectorStore = await this.getVectorStore(userId, databaseId);
-      const results = await vectorStore.similaritySearch(query, k);
+      const results = await vectorStore.similaritySearch(query, k, filter);
       
       return results;
     } catch (error) {
@@ -150,8 +175,43 @@ export class VectorStoreService {
    * Clear vector store for a user
    */
   static async clearVectorStore(userId: string, databaseId: string): Promise<void> {
-    const key = `${userId}:${databaseId}`;
-    this.stores.delete(key);
+    await this.store.delete(await this.store.keys(this.keyPrefix(userId, databaseId)));
+  }
+
+  /**
+   * Flag stored documents whose query uses a removed table or column; flagged documents are left out of the context
+   */
+  static async flagStaleDocuments(
+    userId: string,
+    databaseId: string,
+    removed: { tables: string[]; columns: { table: string; column: string }[] }
+  ): Promise<number> {
+    const prefix = this.keyPrefix(userId, databaseId);
+
+    // Tables may be schema-qualified; queries often leave the schema out
+    const mentions = (query: string, name: string) => {
+      const unqualified = name.split('.').pop()!;
+      return new RegExp(`\\b${unqualified.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`, 'i').test(query);
+    };
+
+    let flagged = 0;
+    for (const vector of await this.loadVectors(userId, databaseId)) {
+      const query = vector.metadata?.query;
+      if (typeof query !== 'string' || vector.metadata.schemaDrift) continue;
+
+      const removedTables = removed.tables.filter(table => mentions(query, table));
+      const removedColumns = removed.columns
+        .filter(change => mentions(query, change.table) && mentions(query, change.column))
+        .map(change => `${change.table}.${change.column}`);
+
+      if (removedTables.length > 0 || removedColumns.length > 0) {
+        vector.metadata.schemaDrift = { removedTables, removedColumns, flaggedAt: new Date().toISOString() };
+        await this.store.set(`${prefix}${vector.id}`, vector, this.TTL_MS);
+        flagged++;
+      }
+    }
+
+    return flagged;
   }
 
   /**
@@ -316,7 +376,8 @@ Data Summary: Analysis of ${totalRecords} records with ${numericColumns.length}
     k: number = 3
   ): Promise<string> {
     try {
-      const results = await this.similaritySearch(userId, databaseId, question, k);
+      // Documents built on tables or columns that no longer exist would mislead the model
+      const results = await this.similaritySearch(userId, databaseId, question, k, doc => !doc.metadata.schemaDrift);
       
       if (results.length === 0) {
         return 'No relevant context found.';